@@ -0,0 +1,244 @@
+/**
+ * The single page of the web UI. It calls DynamoDB through `POST /api/{operation}` and keeps items in DynamoDB JSON.
+ */
+export const adminPage = /* html */ `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>DynamoDB Local</title>
+<style>
+    * {box-sizing: border-box}
+    body {margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #222; display: grid; grid-template: auto 1fr / 220px 1fr; height: 100vh}
+    header {grid-column: 1 / 3; padding: 8px 16px; background: #5b2a86; color: #fff; display: flex; gap: 16px; align-items: baseline}
+    header small {opacity: .7}
+    nav {border-right: 1px solid #ddd; overflow: auto; padding: 8px 0}
+    nav button {display: flex; justify-content: space-between; width: 100%; border: 0; background: none; padding: 6px 16px; text-align: left; cursor: pointer}
+    nav button.active, nav button:hover {background: #efe7f6}
+    main {overflow: auto; padding: 12px 16px}
+    .tabs {display: flex; gap: 4px; margin-bottom: 12px}
+    .tabs button.active {background: #5b2a86; color: #fff}
+    button {font: inherit; padding: 4px 10px; border: 1px solid #bbb; border-radius: 4px; background: #fafafa; cursor: pointer}
+    table {border-collapse: collapse; width: 100%}
+    th, td {border-bottom: 1px solid #eee; padding: 4px 8px; text-align: left; max-width: 320px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; font-family: ui-monospace, monospace; font-size: 13px}
+    tbody tr {cursor: pointer}
+    tbody tr:hover {background: #f6f6f6}
+    textarea {width: 100%; min-height: 240px; font: 13px ui-monospace, monospace}
+    pre {background: #f6f6f6; padding: 8px; overflow: auto}
+    .bar {display: flex; gap: 8px; align-items: center; margin: 8px 0}
+    .error {background: #fde8e8; color: #9b1c1c; padding: 8px; margin-bottom: 8px; white-space: pre-wrap}
+    .hidden {display: none}
+</style>
+</head>
+<body>
+<header><strong>DynamoDB Local</strong><small id="endpoint"></small></header>
+<nav id="tables"></nav>
+<main>
+    <div id="error" class="error hidden"></div>
+    <div class="tabs">
+        <button data-tab="items" class="active">Items</button>
+        <button data-tab="metadata">Metadata</button>
+        <button data-tab="partiql">PartiQL</button>
+    </div>
+    <section id="items">
+        <div class="bar">
+            <button id="previous">Previous</button><button id="next">Next</button>
+            <span id="page"></span>
+            <button id="new">New item</button>
+        </div>
+        <table id="rows"></table>
+        <div id="editor" class="hidden">
+            <h3 id="editor-title"></h3>
+            <textarea id="item" spellcheck="false"></textarea>
+            <div class="bar"><button id="save">Save</button><button id="delete">Delete</button><button id="cancel">Cancel</button></div>
+        </div>
+    </section>
+    <section id="metadata" class="hidden"></section>
+    <section id="partiql" class="hidden">
+        <textarea id="statement" spellcheck="false" style="min-height: 80px" placeholder='SELECT * FROM "users" WHERE "id" = &apos;1&apos;'></textarea>
+        <div class="bar"><button id="run">Run</button><button id="more" class="hidden">Next page</button><span id="statement-count"></span></div>
+        <table id="results"></table>
+    </section>
+</main>
+<script>
+const pageSize = 25
+const state = {table: null, description: null, pages: [undefined], page: 0, items: [], editing: null, nextToken: undefined}
+const $ = id => document.getElementById(id)
+
+async function call(operation, input) {
+    const response = await fetch('/api/' + operation, {method: 'POST', headers: {'Content-Type': 'application/json'}, body: JSON.stringify(input || {})})
+    const output = await response.json()
+    if (!response.ok) throw new Error((output.type ? output.type + ': ' : '') + output.message)
+    return output
+}
+
+function showError(error) {
+    $('error').textContent = error ? error.message : ''
+    $('error').classList.toggle('hidden', !error)
+}
+
+function guard(task) {
+    return async (...args) => {
+        showError()
+        try {await task(...args)} catch (error) {showError(error)}
+    }
+}
+
+function text(value) {
+    const [type, content] = Object.entries(value)[0]
+    if (type === 'S' || type === 'N') return content
+    if (type === 'NULL') return 'null'
+    return JSON.stringify(content)
+}
+
+function keyNames() {
+    return state.description ? state.description.KeySchema.map(key => key.AttributeName) : []
+}
+
+function renderItems(table, items, onClick) {
+    const keys = keyNames().filter(name => items.some(item => item[name]))
+    const others = [...new Set(items.flatMap(Object.keys))].filter(name => !keys.includes(name)).sort()
+    const columns = [...keys, ...others]
+    table.replaceChildren()
+    const head = table.createTHead().insertRow()
+    for (const column of columns) head.appendChild(document.createElement('th')).textContent = column
+    const body = table.createTBody()
+    items.forEach((item, index) => {
+        const row = body.insertRow()
+        for (const column of columns) row.insertCell().textContent = item[column] ? text(item[column]) : ''
+        if (onClick) row.onclick = () => onClick(item, index)
+    })
+}
+
+const loadTables = guard(async () => {
+    const {TableNames} = await call('ListTables')
+    const nav = $('tables')
+    nav.replaceChildren()
+    for (const name of TableNames) {
+        const button = nav.appendChild(document.createElement('button'))
+        button.textContent = name
+        button.classList.toggle('active', name === state.table)
+        button.onclick = () => selectTable(name)
+    }
+
+    if (!TableNames.length) nav.textContent = 'No tables'
+    if (!state.table && TableNames.length) selectTable(TableNames[0])
+})
+
+const selectTable = guard(async name => {
+    state.table = name
+    state.pages = [undefined]
+    state.page = 0
+    for (const button of $('tables').children) button.classList.toggle('active', button.textContent === name)
+    state.description = (await call('DescribeTable', {TableName: name})).Table
+    await Promise.all([loadPage(), renderMetadata()])
+})
+
+const loadPage = guard(async () => {
+    closeEditor()
+    const output = await call('Scan', {TableName: state.table, Limit: pageSize, ExclusiveStartKey: state.pages[state.page]})
+    state.items = output.Items
+    state.pages[state.page + 1] = output.LastEvaluatedKey
+    renderItems($('rows'), state.items, openEditor)
+    $('page').textContent = 'Page ' + (state.page + 1) + ', ' + state.items.length + ' item(s)'
+    $('previous').disabled = state.page === 0
+    $('next').disabled = !output.LastEvaluatedKey
+})
+
+async function renderMetadata() {
+    const table = state.description
+    const ttl = (await call('DescribeTimeToLive', {TableName: table.TableName})).TimeToLiveDescription
+    const types = Object.fromEntries(table.AttributeDefinitions.map(a => [a.AttributeName, a.AttributeType]))
+    const keys = schema => schema.map(key => key.AttributeName + ' (' + key.KeyType + ', ' + types[key.AttributeName] + ')').join(', ')
+    const rows = [
+        ['Table', table.TableName],
+        ['Status', table.TableStatus],
+        ['Keys', keys(table.KeySchema)],
+        ['Items', table.ItemCount],
+        ['Size', table.TableSizeBytes + ' bytes'],
+        ['Billing', table.BillingModeSummary ? table.BillingModeSummary.BillingMode : 'PROVISIONED'],
+        ['Time to live', ttl.AttributeName ? ttl.AttributeName + ' (' + ttl.TimeToLiveStatus + ')' : ttl.TimeToLiveStatus],
+        ['Created', new Date(table.CreationDateTime * 1000).toISOString()],
+        ...(table.GlobalSecondaryIndexes || []).map(index => ['Global index ' + index.IndexName, keys(index.KeySchema) + ', ' + index.Projection.ProjectionType]),
+        ...(table.LocalSecondaryIndexes || []).map(index => ['Local index ' + index.IndexName, keys(index.KeySchema) + ', ' + index.Projection.ProjectionType])
+    ]
+
+    const section = $('metadata')
+    section.replaceChildren()
+    const summary = section.appendChild(document.createElement('table'))
+    for (const [name, value] of rows) {
+        const row = summary.insertRow()
+        row.insertCell().textContent = name
+        row.insertCell().textContent = value
+    }
+
+    section.appendChild(document.createElement('pre')).textContent = JSON.stringify(table, null, 2)
+}
+
+function openEditor(item) {
+    state.editing = item
+    $('editor-title').textContent = item ? 'Edit item' : 'New item'
+    $('item').value = JSON.stringify(item || Object.fromEntries(keyNames().map(name => [name, {S: ''}])), null, 2)
+    $('delete').disabled = !item
+    $('editor').classList.remove('hidden')
+}
+
+function closeEditor() {
+    state.editing = null
+    $('editor').classList.add('hidden')
+}
+
+function keyOf(item) {
+    return Object.fromEntries(keyNames().map(name => [name, item[name]]))
+}
+
+$('save').onclick = guard(async () => {
+    const item = JSON.parse($('item').value)
+    // a changed key is a new item, the old one goes away
+    if (state.editing && JSON.stringify(keyOf(state.editing)) !== JSON.stringify(keyOf(item))) {
+        await call('DeleteItem', {TableName: state.table, Key: keyOf(state.editing)})
+    }
+
+    await call('PutItem', {TableName: state.table, Item: item})
+    await loadPage()
+})
+
+$('delete').onclick = guard(async () => {
+    if (!confirm('Delete this item?')) return
+    await call('DeleteItem', {TableName: state.table, Key: keyOf(state.editing)})
+    await loadPage()
+})
+
+$('cancel').onclick = closeEditor
+$('new').onclick = () => openEditor(null)
+$('previous').onclick = () => {state.page--; loadPage()}
+$('next').onclick = () => {state.page++; loadPage()}
+
+async function runStatement(more) {
+    const output = await call('ExecuteStatement', {Statement: $('statement').value, NextToken: more ? state.nextToken : undefined})
+    state.nextToken = output.NextToken
+    renderItems($('results'), output.Items || [])
+    $('statement-count').textContent = (output.Items || []).length + ' item(s)'
+    $('more').classList.toggle('hidden', !output.NextToken)
+    // statements may have created, changed or deleted items
+    if (state.table) await loadPage()
+}
+
+$('run').onclick = guard(() => runStatement(false))
+$('more').onclick = guard(() => runStatement(true))
+
+for (const tab of document.querySelectorAll('[data-tab]')) {
+    tab.onclick = () => {
+        for (const other of document.querySelectorAll('[data-tab]')) {
+            other.classList.toggle('active', other === tab)
+            $(other.dataset.tab).classList.toggle('hidden', other !== tab)
+        }
+    }
+}
+
+$('endpoint').textContent = location.host
+loadTables()
+</script>
+</body>
+</html>
+`
@@ -0,0 +1,125 @@
+import {createServer, type IncomingMessage, type Server, type ServerResponse} from 'node:http'
+import {once} from 'node:events'
+import {dynamodbRequest} from './dynamodb-client'
+import {DynamoDBLocalError} from './error'
+import {adminPage} from './admin-ui-page'
+
+export interface AdminUIOptions {
+    /**
+     * Serves a web UI to browse tables, page through and edit items and run PartiQL statements, see `instance.ui`.
+     * Not available with `detach`.
+     */
+    ui?: boolean
+    /**
+     * The port of the web UI. If you don't specify this option, the first free port after the DynamoDB port is used.
+     * Use `0` or `'auto'` to pick any free port.
+     */
+    uiPort?: number | 'auto'
+}
+
+/**
+ * The DynamoDB operations the page may call through `POST /api/{operation}`.
+ */
+export const adminOperations = [
+    'ListTables', 'DescribeTable', 'DescribeTimeToLive', 'Scan', 'Query', 'GetItem', 'PutItem', 'DeleteItem', 'ExecuteStatement'
+] as const
+
+/**
+ * A small web app browsing and editing the tables of a DynamoDB instance, as started by `start({ui: true})`.
+ * It only listens on the loopback interface, and only answers requests addressed to it by the page itself,
+ * so that other web pages and DNS rebinding can't reach DynamoDB through it.
+ */
+export class AdminUI {
+    readonly #server: Server
+    readonly #hosts: string[]
+    readonly port: number
+    /**
+     * The URL to open in a browser.
+     */
+    readonly url: string
+    /**
+     * The DynamoDB endpoint every request is proxied to.
+     */
+    readonly endpoint: string
+
+    private constructor(server: Server, port: number, endpoint: string) {
+        this.#server = server
+        this.#hosts = [`localhost:${port}`, `127.0.0.1:${port}`]
+        this.port = port
+        this.url = `http://localhost:${port}`
+        this.endpoint = endpoint
+    }
+
+    /**
+     * Serves the page for `endpoint` on `port`, on a free port when `0`.
+     */
+    static async start(endpoint: string, port = 0) {
+        let ui: AdminUI | undefined
+        const server = createServer((req, res) => ui!.#handle(req, res))
+        server.listen(port, '127.0.0.1')
+
+        try {
+            await once(server, 'listening')
+        }
+
+        catch (error: any) {
+            if (error.code === 'EADDRINUSE') throw new DynamoDBLocalError('PORT_IN_USE', `Port ${port} of the web UI is already in use`, {port})
+            throw error
+        }
+
+        const address = server.address()
+        return ui = new AdminUI(server, typeof address === 'object' && address ? address.port : port, endpoint)
+    }
+
+    async #handle(req: IncomingMessage, res: ServerResponse) {
+        const send = (status: number, type: string, body: string) => {
+            res.writeHead(status, {'Content-Type': type, 'Cache-Control': 'no-store'})
+            res.end(body)
+        }
+
+        const {host, origin} = req.headers
+        if (!host || !this.#hosts.includes(host) || origin && !this.#hosts.some(host => origin === `http://${host}`)) {
+            return send(403, 'text/plain', 'Forbidden')
+        }
+
+        const url = new URL(req.url ?? '/', 'http://localhost')
+        if (req.method === 'GET' && url.pathname === '/') return send(200, 'text/html; charset=utf-8', adminPage)
+
+        const operation = url.pathname.match(/^\/api\/(\w+)$/)?.[1]
+        if (req.method !== 'POST' || !operation) return send(404, 'text/plain', 'Not found')
+        if (!(adminOperations as readonly string[]).includes(operation)) {
+            return send(403, 'application/json', JSON.stringify({type: 'UnsupportedOperation', message: `${operation} is not available from the web UI`}))
+        }
+
+        // other pages can only send simple requests, which can't have this type
+        if (req.headers['content-type']?.split(';')[0].trim() !== 'application/json') {
+            return send(415, 'application/json', JSON.stringify({type: 'UnsupportedMediaType', message: 'Requests must be application/json'}))
+        }
+
+        const chunks: Buffer[] = []
+        try {
+            for await (const chunk of req) chunks.push(chunk)
+        }
+
+        // the client aborted the request
+        catch {
+            return res.destroy()
+        }
+
+        try {
+            const input = JSON.parse(Buffer.concat(chunks).toString() || '{}')
+            send(200, 'application/json', JSON.stringify(await dynamodbRequest(this.endpoint, operation, input)))
+        }
+
+        catch (error: any) {
+            const {type, status}: {type?: string, status?: number} = error instanceof DynamoDBLocalError ? error.details : {}
+            send(status ?? 400, 'application/json', JSON.stringify({type: type ?? error.code ?? 'Error', message: error.message}))
+        }
+    }
+
+    public async close() {
+        if (!this.#server.listening) return
+        this.#server.closeAllConnections?.()
+        await new Promise(resolve => this.#server.close(resolve))
+    }
+}
@@ -0,0 +1,265 @@
+import {DynamoDBLocalError} from './error'
+import {colors, styles} from './shell'
+
+interface BaseOption {
+    description: string
+    /**
+     * The flag spelling when it differs from the option name, e.g. `schema` for `tables`.
+     */
+    flag?: string
+    /**
+     * A single letter alias, used as `-p 8000`.
+     */
+    short?: string
+    /**
+     * Other accepted spellings, e.g. deprecated ones.
+     */
+    aliases?: readonly string[]
+    /**
+     * The name of the value in the help, e.g. `<dir>`.
+     */
+    placeholder?: string
+}
+
+export type OptionSpec =
+    | BaseOption & {type: 'boolean'}
+    | BaseOption & {type: 'string', multiple?: boolean}
+    | BaseOption & {type: 'integer'}
+    | BaseOption & {type: 'port'}
+    | BaseOption & {type: 'list'}
+
+type OptionValue<S extends OptionSpec> =
+    S extends {type: 'boolean'} ? boolean :
+    S extends {type: 'integer'} ? number :
+    S extends {type: 'port'} ? number | 'auto' :
+    S extends {type: 'list'} ? string[] :
+    S extends {multiple: true} ? string[] :
+    string
+
+export type ParsedOptions<O extends Record<string, OptionSpec>> = {-readonly [K in keyof O]?: OptionValue<O[K]>}
+
+export interface Command<O extends Record<string, OptionSpec> = Record<string, OptionSpec>> {
+    name: string
+    aliases?: readonly string[]
+    /**
+     * One line shown in the list of commands.
+     */
+    summary: string
+    /**
+     * Shown in the help of the command, after the usage line. Defaults to `summary`.
+     */
+    description?: string
+    /**
+     * The positional arguments, e.g. `<name>` or `[file]`, shown in the usage line.
+     */
+    usage?: string
+    options: O
+    /**
+     * Resolves with the exit code, `success` when nothing is returned. `name` is the name or alias the command was run as.
+     */
+    run(options: ParsedOptions<O>, positionals: string[], name: string): Promise<number | void>
+}
+
+/**
+ * Infers the types of the parsed options from their specification.
+ */
+export function defineCommand<const O extends Record<string, OptionSpec>>(command: Command<O>) {
+    return command
+}
+
+/**
+ * The exit codes of the CLI.
+ */
+export const exitCodes = {
+    success: 0,
+    /**
+     * The command failed, e.g. a download error or an unreachable instance.
+     */
+    failure: 1,
+    /**
+     * The command line is invalid.
+     */
+    usage: 2,
+    /**
+     * There is no DynamoDB running in the background, e.g. for status or stop.
+     */
+    notRunning: 3
+} as const
+
+const helpOption = {type: 'boolean', short: 'h', description: 'Shows this help'} as const satisfies OptionSpec
+
+function distance(a: string, b: string) {
+    const previous = Array.from({length: b.length + 1}, (_, n) => n)
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0]
+        previous[0] = i
+        for (let j = 1; j <= b.length; j++) {
+            const current = previous[j]
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+            diagonal = current
+        }
+    }
+
+    return previous[b.length]
+}
+
+/**
+ * Returns the candidate closest to `input`, if close enough to be a typo.
+ */
+export function suggest(input: string, candidates: string[]) {
+    let best: string | undefined
+    let bestDistance = Infinity
+    for (const candidate of candidates) {
+        const d = distance(input.toLowerCase(), candidate.toLowerCase())
+        if (d < bestDistance) [best, bestDistance] = [candidate, d]
+    }
+
+    return best !== undefined && bestDistance <= Math.max(2, Math.floor(input.length / 3)) ? best : undefined
+}
+
+function usageError(message: string, argument: string) {
+    return new DynamoDBLocalError('INVALID_ARGUMENT', message, {argument})
+}
+
+function convert(flag: string, spec: OptionSpec, value: string) {
+    switch (spec.type) {
+        case 'boolean':
+            if (value === 'true') return true
+            if (value === 'false') return false
+            throw usageError(`Option ${styles.bold(flag)} takes no value or true/false, got ${value}`, flag)
+
+        case 'port':
+            if (value === 'auto') return 'auto'
+            // falls through
+        case 'integer':
+            if (!/^\d+$/.test(value)) throw usageError(
+                `Option ${styles.bold(flag)} expects a non-negative integer${spec.type === 'port' ? ' or auto' : ''}, got ${value || 'nothing'}`,
+                flag
+            )
+
+            if (spec.type === 'port' && +value > 65535) throw usageError(`Option ${styles.bold(flag)} expects a port up to 65535, got ${value}`, flag)
+            return +value
+
+        case 'list':
+            return value.split(',').map(item => item.trim()).filter(Boolean)
+
+        default:
+            return value
+    }
+}
+
+/**
+ * Parses `argv` against the options of `command`. Accepts `--name value`, `--name=value`, `-n value` and `-n=value`,
+ * and everything after `--` as positional arguments. Throws an `INVALID_ARGUMENT` error naming the closest
+ * known option when a flag is unknown.
+ */
+export function parseArguments<O extends Record<string, OptionSpec>>(argv: string[], command: Command<O>) {
+    const flags = new Map<string, [string, OptionSpec]>()
+    const options = {...command.options, help: helpOption} as Record<string, OptionSpec>
+    for (const [name, spec] of Object.entries(options)) {
+        for (const flag of [spec.flag ?? name, ...spec.aliases ?? []]) flags.set(`--${flag}`, [name, spec])
+        if (spec.short) flags.set(`-${spec.short}`, [name, spec])
+    }
+
+    const parsed: Record<string, unknown> = {}
+    const positionals: string[] = []
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]
+        if (arg === '--') {
+            positionals.push(...argv.slice(i + 1))
+            break
+        }
+
+        if (!arg.startsWith('-') || arg === '-') {
+            positionals.push(arg)
+            continue
+        }
+
+        const separator = arg.indexOf('=')
+        const flag = separator === -1 ? arg : arg.slice(0, separator)
+        const entry = flags.get(flag)
+
+        if (!entry) {
+            const known = [...flags.keys()].filter(flag => flag.startsWith('--'))
+            const suggestion = suggest(flag, known)
+            throw usageError(
+                `Unknown option ${styles.bold(flag)} for ${command.name}` +
+                (suggestion ? `, did you mean ${styles.bold(suggestion)}?` : '') +
+                ` Run ${styles.bold(`dynamodb-local ${command.name} --help`)} for the list of options`,
+                flag
+            )
+        }
+
+        const [name, spec] = entry
+        let value: string
+
+        if (separator !== -1) value = arg.slice(separator + 1)
+        else if (spec.type === 'boolean') value = 'true'
+        else if (i + 1 < argv.length && !(argv[i + 1].startsWith('-') && argv[i + 1].length > 1 && isNaN(+argv[i + 1]))) {
+            value = argv[++i]
+        }
+
+        else throw usageError(
+            `Option ${styles.bold(flag)} expects a value` +
+            (i + 1 < argv.length ? `, use ${styles.bold(`${flag}=${argv[i + 1]}`)} for values starting with -` : ''),
+            flag
+        )
+
+        const converted = convert(flag, spec, value)
+        if (spec.type === 'string' && spec.multiple) {
+            parsed[name] = [...(parsed[name] as string[] | undefined) ?? [], converted]
+        }
+
+        else parsed[name] = converted
+    }
+
+    const {help, ...rest} = parsed
+    return {options: rest as ParsedOptions<O>, positionals, help: help === true}
+}
+
+function optionLabel(name: string, spec: OptionSpec) {
+    const flag = `--${spec.flag ?? name}`
+    const value = spec.type === 'boolean' ? '' : ` ${spec.placeholder ?? `<${spec.type === 'list' ? 'a,b' : spec.type === 'string' ? 'value' : spec.type}>`}`
+    return (spec.short ? `-${spec.short}, ` : '    ') + flag + value
+}
+
+function table(rows: [string, string][]) {
+    const width = Math.max(...rows.map(([left]) => left.length)) + 2
+    return rows.map(([left, right]) => '  ' + styles.bold(left) + ' '.repeat(width - left.length) + right).join('\n')
+}
+
+/**
+ * Renders the help of `command`, listing its options.
+ */
+export function formatHelp(command: Command) {
+    const options = {...command.options, help: helpOption} as Record<string, OptionSpec>
+    const rows = Object.entries(options).map(([name, spec]): [string, string] => [
+        optionLabel(name, spec),
+        spec.description + (spec.type === 'string' && spec.multiple ? colors.gray(' (repeatable)') : '')
+    ])
+
+    return [
+        `${styles.bold('Usage:')} dynamodb-local ${command.name}${command.usage ? ' ' + command.usage : ''} [options]`,
+        '',
+        command.description ?? command.summary,
+        ...command.aliases?.length ? ['', `${styles.bold('Aliases:')} ${command.aliases.join(', ')}`] : [],
+        '',
+        styles.bold('Options:'),
+        table(rows)
+    ].join('\n')
+}
+
+/**
+ * Renders the list of commands.
+ */
+export function formatUsage(commands: Command[]) {
+    return [
+        `${styles.bold('Usage:')} dynamodb-local <command> [options]`,
+        '',
+        styles.bold('Commands:'),
+        table(commands.map(command => [command.name, command.summary])),
+        '',
+        `Run ${styles.bold('dynamodb-local <command> --help')} for the options of a command.`
+    ].join('\n')
+}
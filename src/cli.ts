@@ -0,0 +1,867 @@
+import type {DetachOptions, DynamoDBOptions, StartOptions} from './dynamodb-local'
+import {DynamoDBLocalCLI, defaultPath} from './dynamodb-local'
+import {DynamoDBLocalError} from './error'
+import {colors, styles} from './shell'
+import {createTable, listTables, seed, type Item} from './seed'
+import {deleteTable, getItem, putItem, readItems, toValue} from './tables'
+import {dynamodbRequest} from './dynamodb-client'
+import {exportTables, importTables, transferFormats, type TransferFormat, type TransferResult} from './transfer'
+import {readState} from './daemon'
+import {listSnapshots, loadSnapshot, readSnapshot, saveSnapshot, snapshotPath, snapshotsDirectory} from './snapshot'
+import {cleanCache, defaultCacheDirectory, listCache} from './download-cache'
+import {findJava} from './java'
+import {runtimes, type Runtime} from './runtime'
+import {loadConfig} from './config'
+import {createReporter, reporterFormats, type Reporter, type ReporterFormat} from './reporter'
+import {defineCommand, exitCodes, formatHelp, formatUsage, parseArguments, suggest, type Command, type OptionSpec, type ParsedOptions} from './cli-parser'
+
+const pathOption = {
+    type: 'string',
+    placeholder: '<dir>',
+    description: `The install directory, defaults to ${defaultPath}`
+} as const satisfies OptionSpec
+
+const configOption = {
+    type: 'string',
+    placeholder: '<file>',
+    description: 'The configuration file, or false to ignore configuration files and environment variables'
+} as const satisfies OptionSpec
+
+const portOption = {
+    type: 'integer',
+    short: 'p',
+    placeholder: '<port>',
+    description: 'The port of the running DynamoDB, defaults to 8000'
+} as const satisfies OptionSpec
+
+const dynamodbOptions = {
+    port: {
+        type: 'port',
+        short: 'p',
+        description: 'The port DynamoDB listens on, defaults to 8000. Use 0 or auto to pick a free port'
+    },
+    portFallback: {
+        type: 'boolean',
+        description: 'Uses the next free port when the port is taken, instead of failing'
+    },
+    inMemory: {
+        type: 'boolean',
+        short: 'm',
+        description: 'Runs in memory instead of using a database file. Cannot be used with --dbPath'
+    },
+    dbPath: {
+        type: 'string',
+        short: 'd',
+        placeholder: '<dir>',
+        description: 'The directory where DynamoDB writes its database file. Cannot be used with --inMemory'
+    },
+    delayTransientStatuses: {
+        type: 'boolean',
+        description: 'Introduces delays for certain operations, as the DynamoDB web service does'
+    },
+    cors: {
+        type: 'list',
+        placeholder: '<origins>',
+        description: 'A comma separated allow list of origins for CORS, defaults to *'
+    },
+    sharedDB: {
+        type: 'boolean',
+        aliases: ['sharedDb'],
+        description: 'Uses a single database file instead of one per credential and Region'
+    },
+    tables: {
+        type: 'string',
+        flag: 'schema',
+        placeholder: '<file>',
+        description: 'A JSON, YAML, JS or TS file of tables to create once DynamoDB is ready'
+    },
+    fixtures: {
+        type: 'string',
+        flag: 'data',
+        placeholder: '<file>',
+        description: 'A JSON, YAML or NDJSON file of items to write once the tables exist'
+    },
+    javaPath: {
+        type: 'string',
+        placeholder: '<path>',
+        description: 'The java executable or Java installation directory, defaults to JAVA_HOME then PATH'
+    },
+    jvmArgs: {
+        type: 'string',
+        flag: 'jvmArg',
+        multiple: true,
+        placeholder: '<arg>',
+        description: 'An argument passed to the JVM before -jar, e.g. --jvmArg=-Xmx1g'
+    }
+} as const satisfies {[K in keyof DynamoDBOptions]?: OptionSpec}
+
+const startOptions = {
+    path: pathOption,
+    config: configOption,
+    version: {
+        type: 'string',
+        short: 'v',
+        placeholder: '<version>',
+        description: 'The installed version to run, defaults to the unversioned installation or latest'
+    },
+    runtime: {
+        type: 'string',
+        placeholder: `<${runtimes.join('|')}>`,
+        description: 'Runs DynamoDB with a local Java runtime or in a docker container, defaults to java'
+    },
+    dockerPath: {
+        type: 'string',
+        placeholder: '<path>',
+        description: 'The docker executable of the docker runtime, defaults to PATH'
+    },
+    image: {
+        type: 'string',
+        placeholder: '<image>',
+        description: 'The image of the docker runtime, defaults to amazon/dynamodb-local:<version>'
+    },
+    ...dynamodbOptions,
+    logs: {
+        type: 'boolean',
+        description: 'Prints the output of DynamoDB'
+    },
+    logFile: {
+        type: 'string',
+        placeholder: '<file>',
+        description: 'Writes the output of DynamoDB to a file, rotated every 10 MiB'
+    },
+    detach: {
+        type: 'boolean',
+        description: 'Keeps DynamoDB running in the background, see status and stop'
+    },
+    ui: {
+        type: 'boolean',
+        description: 'Serves a web UI to browse tables, edit items and run PartiQL. Cannot be used with --detach'
+    },
+    uiPort: {
+        type: 'port',
+        description: 'The port of the web UI, defaults to the first free port after the DynamoDB port'
+    },
+    trace: {
+        type: 'string',
+        placeholder: '<file>',
+        description: 'Appends every DynamoDB request to an NDJSON file, through a proxy. Cannot be used with --detach'
+    },
+    faults: {
+        type: 'string',
+        flag: 'fault',
+        multiple: true,
+        placeholder: '<fault>',
+        description: 'Fails matching requests through a proxy, e.g. --fault=ThrottlingException,operation=PutItem,table=users'
+    },
+    watch: {
+        type: 'list',
+        placeholder: '<files>',
+        description: 'Applies --schema and --data again when they or these comma separated files change. Cannot be used with --detach'
+    },
+    reuseExisting: {
+        type: 'boolean',
+        description: 'Does nothing when a DynamoDB already answers on the port'
+    }
+} as const satisfies {[K in keyof (StartOptions & DetachOptions) | 'path']?: OptionSpec}
+
+/**
+ * Accepted by every command.
+ */
+const reporterOptions = {
+    yes: {type: 'boolean', short: 'y', description: 'Answers yes to every question'},
+    nonInteractive: {type: 'boolean', flag: 'non-interactive', description: 'Never asks questions, answering no unless --yes is set'},
+    reporter: {
+        type: 'string',
+        placeholder: `<${reporterFormats.join('|')}>`,
+        description: 'How to report, defaults to tty in a terminal and plain otherwise'
+    }
+} as const satisfies Record<string, OptionSpec>
+
+// replaced by run() once the options of the command are parsed
+let reporter: Reporter = createReporter()
+
+function orFalse(value?: string): string | false | undefined {
+    return value === 'false' ? false : value
+}
+
+interface ConfigArguments {
+    path?: string
+    config?: string
+}
+
+/**
+ * Loads the configuration file and environment variables named by `--config`, `false` disabling them.
+ */
+function configured({config}: ConfigArguments) {
+    return loadConfig({config: orFalse(config)})
+}
+
+async function installPath(args: ConfigArguments) {
+    return args.path ?? (await configured(args)).path ?? defaultPath
+}
+
+async function builder(args: ConfigArguments) {
+    return new DynamoDBLocalCLI(await installPath(args), {reporter})
+}
+
+/**
+ * The port of the running DynamoDB: `--port`, else the one running in the background from the install path,
+ * else the configured port, else `8000`.
+ */
+async function runningPort({port, ...args}: ConfigArguments & {port?: number}) {
+    const value = port ?? (await readState(await installPath(args)))?.port ?? (await configured(args)).port
+    return typeof value === 'number' && value > 0 ? value : 8000
+}
+
+async function runningEndpoint(args: ConfigArguments & {port?: number}) {
+    return `http://localhost:${await runningPort(args)}`
+}
+
+/**
+ * Accepted by the commands reading and writing the tables of a running DynamoDB.
+ */
+const dataOptions = {
+    path: pathOption,
+    config: configOption,
+    port: portOption,
+    json: {type: 'boolean', description: 'Prints the response of DynamoDB as JSON instead of a table'}
+} as const satisfies Record<string, OptionSpec>
+
+function requireTable(table: string | undefined, command: string) {
+    if (!table) throw new DynamoDBLocalError(
+        'INVALID_ARGUMENT',
+        `A table name must be provided, e.g. ${styles.bold(`dynamodb-local ${command} my-table`)}`
+    )
+
+    return table
+}
+
+/**
+ * Parses the DynamoDB JSON given to `flag`, e.g. `--key='{"id": {"S": "1"}}'`.
+ */
+function parseJSON<T = Item>(flag: string, value: string): T {
+    try {
+        return JSON.parse(value)
+    }
+
+    catch (error: any) {
+        throw new DynamoDBLocalError('INVALID_ARGUMENT', `Option ${styles.bold(flag)} expects JSON: ${error.message}`, {argument: flag})
+    }
+}
+
+function printJSON(value: unknown) {
+    console.log(JSON.stringify(value, null, 2))
+}
+
+/**
+ * Prints `items` as a table, the key attributes first, then the others in alphabetical order.
+ */
+function printItems(items: Item[], keys: string[]) {
+    const attributes = [...keys, ...[...new Set(items.flatMap(Object.keys))].filter(name => !keys.includes(name)).sort()]
+    reporter.table(attributes, items.map(item => attributes.map(name => {
+        if (!item[name]) return colors.gray('-')
+        const value = toValue(item[name])
+        const text = typeof value === 'string' ? value : JSON.stringify(value)
+        // keeps one item per line
+        return text.length > 40 ? text.slice(0, 39) + '…' : text
+    })))
+
+    reporter.info(`${items.length} item(s)`)
+}
+
+async function keyAttributes(endpoint: string, TableName: string): Promise<string[]> {
+    const {Table} = await dynamodbRequest(endpoint, 'DescribeTable', {TableName})
+    return Table.KeySchema.map((key: {AttributeName: string}) => key.AttributeName)
+}
+
+const transferOptions = {
+    path: pathOption,
+    config: configOption,
+    port: portOption,
+    format: {
+        type: 'string',
+        placeholder: `<${transferFormats.join('|')}>`,
+        description: 'The format to read, defaults to s3 for directories and ndjson otherwise'
+    },
+    tables: {type: 'list', flag: 'table', placeholder: '<names>', description: 'A comma separated list of the tables to transfer, defaults to all'}
+} as const satisfies Record<string, OptionSpec>
+
+function requireTarget(target: string | undefined, command: string) {
+    if (!target) throw new DynamoDBLocalError(
+        'INVALID_ARGUMENT',
+        `A file or directory must be provided, e.g. ${styles.bold(`dynamodb-local ${command} data.ndjson`)}`
+    )
+
+    return target
+}
+
+function transferFormat(format?: string) {
+    if (format !== undefined && !transferFormats.includes(format as TransferFormat)) throw new DynamoDBLocalError(
+        'INVALID_ARGUMENT',
+        `Option ${styles.bold('--format')} expects one of ${transferFormats.join(', ')}, got ${format}`,
+        {argument: '--format'}
+    )
+
+    return format as TransferFormat | undefined
+}
+
+function reportTransfer(result: TransferResult, done: string) {
+    for (const [table, items] of Object.entries(result.tables)) reporter.detail(table, `${items} item(s)`)
+    reporter.success(`${result.items} item(s) ${done}`)
+}
+
+/**
+ * Parses `--key=id:S,createdAt:N` into the key schema of a table, the partition key first.
+ */
+function parseKeySchema(keys: string[]) {
+    if (!keys.length || keys.length > 2) throw new DynamoDBLocalError(
+        'INVALID_ARGUMENT',
+        `Option ${styles.bold('--key')} expects a partition key and an optional sort key, e.g. --key=id:S,createdAt:N`,
+        {argument: '--key'}
+    )
+
+    const attributes = keys.map(key => {
+        const [AttributeName, AttributeType = 'S'] = key.split(':')
+        if (!AttributeName || !['S', 'N', 'B'].includes(AttributeType)) throw new DynamoDBLocalError(
+            'INVALID_ARGUMENT',
+            `Invalid key ${key}, expected <name:S|N|B>`,
+            {argument: '--key'}
+        )
+
+        return {AttributeName, AttributeType: AttributeType as 'S' | 'N' | 'B'}
+    })
+
+    return {
+        AttributeDefinitions: attributes,
+        KeySchema: attributes.map(({AttributeName}, i) => ({AttributeName, KeyType: i ? 'RANGE' as const : 'HASH' as const}))
+    }
+}
+
+/**
+ * Prints `error` and returns its exit code: `usage` for an invalid command line, `notRunning` when there is
+ * no DynamoDB to talk to and `failure` otherwise.
+ */
+function report(error: any) {
+    if (!(error instanceof DynamoDBLocalError)) {
+        reporter.error(error?.name ?? 'error', error?.message ?? String(error))
+        return exitCodes.failure
+    }
+
+    reporter.error(DynamoDBLocalError.is(error, 'REQUEST_FAILED') && error.details.type || error.code, error.message)
+    if (error.code === 'INVALID_ARGUMENT') return exitCodes.usage
+    if (error.code === 'NOT_RUNNING') return exitCodes.notRunning
+    return exitCodes.failure
+}
+
+export const commands: Command[] = [
+    defineCommand({
+        name: 'install',
+        summary: 'Downloads and installs DynamoDB',
+        options: {
+            path: pathOption,
+            config: configOption,
+            version: {type: 'string', short: 'v', placeholder: '<version>', description: 'The version to install, defaults to latest'},
+            checksum: {
+                type: 'string',
+                placeholder: '<sha256>',
+                description: 'The expected SHA-256 of the archive, or false to skip the verification'
+            },
+            baseUrl: {type: 'string', flag: 'mirror', placeholder: '<url>', description: 'A mirror of the download site'},
+            archive: {type: 'string', placeholder: '<url|file>', description: 'The URL or path of the archive to install'},
+            proxy: {type: 'string', placeholder: '<url>', description: 'The proxy to download through, or false to ignore HTTPS_PROXY'},
+            timeout: {type: 'integer', placeholder: '<ms>', description: 'The time without data before a download fails, defaults to 30000'},
+            retries: {type: 'integer', description: 'The number of retries of a failed download, defaults to 2'},
+            cache: {type: 'string', placeholder: '<dir>', description: 'The archive cache directory, or false to disable it'}
+        },
+        async run({path, config, checksum, proxy, cache, ...options}) {
+            const ddbLocal = await builder({path, config})
+            await ddbLocal.install({
+                ...options,
+                config: orFalse(config),
+                checksum: orFalse(checksum),
+                proxy: orFalse(proxy),
+                cache: orFalse(cache)
+            })
+        }
+    }),
+
+    defineCommand({
+        name: 'uninstall',
+        summary: 'Removes an installation of DynamoDB',
+        options: {
+            path: pathOption,
+            config: configOption,
+            version: {type: 'string', short: 'v', placeholder: '<version>', description: 'The version to remove, defaults to every version'}
+        },
+        async run({path, config, version}) {
+            const ddbLocal = await builder({path, config})
+            await ddbLocal.uninstall({version})
+        }
+    }),
+
+    defineCommand({
+        name: 'versions',
+        summary: 'Lists the installed versions',
+        options: {path: pathOption, config: configOption},
+        async run(args) {
+            const versions = await (await builder(args)).versions()
+            if (!versions.length) {
+                reporter.info('No versions installed')
+            }
+
+            for (const {version, installedAt, lastModified} of versions) {
+                reporter.message(`${styles.bold(version)} installed ${installedAt || '-'}` + (lastModified ? `, released ${lastModified}` : ''))
+            }
+        }
+    }),
+
+    defineCommand({
+        name: 'verify',
+        aliases: ['doctor'],
+        summary: 'Checks the installed files against their manifest',
+        description: 'Checks the installed files against their manifest. As doctor, also checks the Java runtime.',
+        options: {
+            path: pathOption,
+            config: configOption,
+            version: {type: 'string', short: 'v', placeholder: '<version>', description: 'The version to verify, defaults to every version'},
+            repair: {type: 'boolean', description: 'Downloads damaged installations again without prompting'},
+            javaPath: dynamodbOptions.javaPath
+        },
+        async run({path, config, version, repair, javaPath}, _, name) {
+            const ddbLocal = await builder({path, config})
+            let code: number = exitCodes.success
+            if (name === 'doctor') {
+                try {
+                    const java = await findJava(javaPath)
+                    reporter.info(`java ${java.version} found at ${java.path}`)
+                }
+
+                catch (error) {
+                    code = report(error)
+                }
+            }
+
+            const results = await ddbLocal.verify({version, repair})
+            if (results.some(({missing, modified}) => missing.length || modified.length)) {
+                code = exitCodes.failure
+            }
+
+            return code
+        }
+    }),
+
+    defineCommand({
+        name: 'start',
+        summary: 'Starts DynamoDB',
+        description: 'Starts DynamoDB, installing it first when needed. Runs in the foreground unless --detach is set.',
+        options: startOptions,
+        async run({path, detach, config, runtime, ...args}) {
+            const ddbLocal = await builder({path, config})
+            // validated by start()
+            const options = {...args, runtime: runtime as Runtime | undefined, config: orFalse(config)}
+            if (detach) await ddbLocal.start({...options, detach: true})
+            else await ddbLocal.start(options)
+        }
+    }),
+
+    defineCommand({
+        name: 'status',
+        summary: 'Shows the DynamoDB running in the background',
+        description: `Shows the DynamoDB running in the background. Exits with ${exitCodes.notRunning} when there is none ` +
+            `and with ${exitCodes.failure} when it does not answer.`,
+        options: {path: pathOption, config: configOption},
+        async run(args) {
+            const status = await (await builder(args)).status()
+            if (!status) {
+                reporter.info('DynamoDB is not running in the background')
+                return exitCodes.notRunning
+            }
+
+            reporter.success(status.ready ? 'dynamodb running' : 'dynamodb not answering')
+            reporter.detail('pid', status.pid)
+            reporter.detail('endpoint', status.endpoint)
+            reporter.detail('version', status.version ?? '-')
+            reporter.detail('dbPath', status.dbPath ?? '-')
+            reporter.detail('logFile', status.logFile)
+            reporter.detail('started', status.startedAt)
+            if (!status.ready) return exitCodes.failure
+        }
+    }),
+
+    defineCommand({
+        name: 'stop',
+        summary: 'Stops the DynamoDB running in the background',
+        options: {
+            path: pathOption,
+            config: configOption,
+            gracePeriod: {
+                type: 'integer',
+                placeholder: '<ms>',
+                description: 'The time to wait after SIGTERM before sending SIGKILL, defaults to 5000'
+            }
+        },
+        async run({path, config, gracePeriod}) {
+            const ddbLocal = await builder({path, config})
+            await ddbLocal.stop({gracePeriod})
+        }
+    }),
+
+    defineCommand({
+        name: 'seed',
+        summary: 'Creates tables and writes items into a running DynamoDB',
+        options: {
+            path: pathOption,
+            config: configOption,
+            port: portOption,
+            tables: dynamodbOptions.tables,
+            fixtures: dynamodbOptions.fixtures
+        },
+        async run({path, config, port, tables, fixtures}) {
+            if (!tables && !fixtures) throw new DynamoDBLocalError(
+                'INVALID_ARGUMENT',
+                `At least one of ${styles.bold('--schema')} or ${styles.bold('--data')} must be provided`
+            )
+
+            const endpoint = await runningEndpoint({path, config, port})
+            const {created, skipped, items} = await seed(endpoint, {tables, fixtures})
+            created.forEach(table => reporter.success(`created table ${table}`))
+            skipped.forEach(table => reporter.warning(`Table ${styles.bold(table)} already exists and was left untouched`))
+            reporter.info(`${items} item(s) written`)
+        }
+    }),
+
+    defineCommand({
+        name: 'tables',
+        usage: '<list|describe|create|delete> [table]',
+        summary: 'Lists, describes, creates or deletes the tables of a running DynamoDB',
+        description: 'Lists, describes, creates or deletes the tables of a running DynamoDB. Tables are created either ' +
+            'from a schema file or from a name and --key, deleting one asks for confirmation.',
+        options: {
+            ...dataOptions,
+            tables: dynamodbOptions.tables,
+            key: {
+                type: 'list',
+                placeholder: '<name:type>',
+                description: 'The partition key and optional sort key of the table to create, e.g. id:S,createdAt:N'
+            }
+        },
+        async run({json, tables, key, ...args}, [action, table]) {
+            const endpoint = await runningEndpoint(args)
+
+            if (action === 'list') {
+                const names = await listTables(endpoint)
+                if (json) return printJSON({TableNames: names})
+                const descriptions = await Promise.all(names.map(TableName => dynamodbRequest(endpoint, 'DescribeTable', {TableName})))
+                reporter.table(['Table', 'Status', 'Items', 'Keys'], descriptions.map(({Table}) => [
+                    Table.TableName,
+                    Table.TableStatus,
+                    String(Table.ItemCount ?? 0),
+                    Table.KeySchema.map((key: {AttributeName: string}) => key.AttributeName).join(', ')
+                ]))
+            }
+
+            else if (action === 'describe') {
+                const {Table} = await dynamodbRequest(endpoint, 'DescribeTable', {TableName: requireTable(table, 'tables describe')})
+                if (json) return printJSON({Table})
+                const types = Object.fromEntries(Table.AttributeDefinitions.map((a: any) => [a.AttributeName, a.AttributeType]))
+                const keys = (schema: any[]) => schema.map(key => `${key.AttributeName} (${key.KeyType}, ${types[key.AttributeName]})`).join(', ')
+                reporter.detail('table', Table.TableName)
+                reporter.detail('status', Table.TableStatus)
+                reporter.detail('keys', keys(Table.KeySchema))
+                reporter.detail('items', Table.ItemCount ?? 0)
+                reporter.detail('size', `${Table.TableSizeBytes ?? 0} bytes`)
+                reporter.detail('billing', Table.BillingModeSummary?.BillingMode ?? 'PROVISIONED')
+                for (const index of [...Table.GlobalSecondaryIndexes ?? [], ...Table.LocalSecondaryIndexes ?? []]) {
+                    reporter.detail(`index ${index.IndexName}`, keys(index.KeySchema))
+                }
+
+                reporter.detail('created', new Date(Table.CreationDateTime * 1000).toISOString())
+            }
+
+            else if (action === 'create') {
+                if (tables) {
+                    const {created, skipped} = await seed(endpoint, {tables})
+                    created.forEach(table => reporter.success(`created table ${table}`))
+                    skipped.forEach(table => reporter.warning(`Table ${styles.bold(table)} already exists and was left untouched`))
+                    if (json) printJSON({created, skipped})
+                    return
+                }
+
+                const TableName = requireTable(table, 'tables create')
+                await createTable(endpoint, {TableName, ...parseKeySchema(key ?? [])})
+                if (json) printJSON({created: [TableName], skipped: []})
+                else reporter.success(`created table ${TableName}`)
+            }
+
+            else if (action === 'delete') {
+                const TableName = requireTable(table, 'tables delete')
+                if (!await reporter.confirm(`Delete table ${styles.bold(TableName)} and all of its items?`)) {
+                    reporter.info(`Table ${TableName} was not deleted`)
+                    return exitCodes.failure
+                }
+
+                const description = await deleteTable(endpoint, TableName)
+                if (json) printJSON({TableDescription: description})
+                else reporter.success(`deleted table ${TableName}`)
+            }
+
+            else throw new DynamoDBLocalError(
+                'INVALID_ARGUMENT',
+                `Expected one of ${['list', 'describe', 'create', 'delete'].map(action => styles.bold(`tables ${action}`)).join(', ')}`
+            )
+        }
+    }),
+
+    ...(['scan', 'query'] as const).map(name => defineCommand({
+        name,
+        usage: '<table>',
+        summary: name === 'scan' ? 'Prints the items of a table' : 'Prints the items of a table matching a key condition',
+        options: {
+            ...dataOptions,
+            keyCondition: {
+                type: 'string',
+                flag: 'where',
+                placeholder: '<expression>',
+                description: 'The key condition expression of a query, e.g. "id = :id"'
+            },
+            filter: {type: 'string', placeholder: '<expression>', description: 'A filter expression, e.g. "age > :min"'},
+            values: {
+                type: 'string',
+                placeholder: '<json>',
+                description: 'The values of the expressions in DynamoDB JSON, e.g. \'{":id": {"S": "1"}}\''
+            },
+            index: {type: 'string', placeholder: '<name>', description: 'Reads a secondary index instead of the table'},
+            limit: {type: 'integer', placeholder: '<count>', description: 'The maximum number of items to read, defaults to all'},
+            reverse: {type: 'boolean', description: 'Reads the items of a query in descending sort key order'}
+        },
+        async run({json, keyCondition, filter, values, index, limit, reverse, ...args}, [table]) {
+            const TableName = requireTable(table, name)
+            if (name === 'query' && !keyCondition) throw new DynamoDBLocalError(
+                'INVALID_ARGUMENT',
+                `A key condition must be provided, e.g. ${styles.bold(`dynamodb-local query ${TableName} --where="id = :id"`)}`,
+                {argument: '--where'}
+            )
+
+            const endpoint = await runningEndpoint(args)
+            const result = await readItems(endpoint, name === 'scan' ? 'Scan' : 'Query', {
+                TableName,
+                IndexName: index,
+                KeyConditionExpression: keyCondition,
+                FilterExpression: filter,
+                ExpressionAttributeValues: values === undefined ? undefined : parseJSON('--values', values),
+                ScanIndexForward: reverse ? false : undefined
+            }, limit)
+
+            if (json) printJSON(result)
+            else printItems(result.Items, await keyAttributes(endpoint, TableName))
+        }
+    })),
+
+    defineCommand({
+        name: 'get',
+        usage: '<table>',
+        summary: 'Prints an item of a table',
+        description: `Prints an item of a table. Exits with ${exitCodes.failure} when there is no item with the key.`,
+        options: {
+            ...dataOptions,
+            key: {type: 'string', placeholder: '<json>', description: 'The key of the item in DynamoDB JSON, e.g. \'{"id": {"S": "1"}}\''}
+        },
+        async run({json, key, ...args}, [table]) {
+            const TableName = requireTable(table, 'get')
+            if (!key) throw new DynamoDBLocalError('INVALID_ARGUMENT', `Option ${styles.bold('--key')} must be provided`, {argument: '--key'})
+
+            const endpoint = await runningEndpoint(args)
+            const item = await getItem(endpoint, TableName, parseJSON('--key', key))
+            if (json) printJSON({Item: item})
+            else if (item) printItems([item], await keyAttributes(endpoint, TableName))
+            else reporter.info('No item found')
+
+            if (!item) return exitCodes.failure
+        }
+    }),
+
+    defineCommand({
+        name: 'put',
+        usage: '<table>',
+        summary: 'Writes an item into a table',
+        options: {
+            ...dataOptions,
+            item: {type: 'string', placeholder: '<json>', description: 'The item in DynamoDB JSON, e.g. \'{"id": {"S": "1"}}\''}
+        },
+        async run({json, item, ...args}, [table]) {
+            const TableName = requireTable(table, 'put')
+            if (!item) throw new DynamoDBLocalError('INVALID_ARGUMENT', `Option ${styles.bold('--item')} must be provided`, {argument: '--item'})
+
+            await putItem(await runningEndpoint(args), TableName, parseJSON('--item', item))
+            if (json) printJSON({})
+            else reporter.success(`item written to ${TableName}`)
+        }
+    }),
+
+    defineCommand({
+        name: 'export',
+        usage: '<file|dir>',
+        summary: 'Writes the tables and items of a running DynamoDB to NDJSON or to an S3 export',
+        options: {
+            ...transferOptions,
+            format: {...transferOptions.format, description: 'The format to write, defaults to ndjson'},
+            segments: {type: 'integer', placeholder: '<count>', description: 'The number of parallel Scan segments per table, defaults to 4'}
+        },
+        async run({format, tables, segments, ...args}, [target]) {
+            const result = await exportTables(await runningEndpoint(args), requireTarget(target, 'export'), {
+                format: transferFormat(format),
+                tables,
+                segments
+            })
+
+            reportTransfer(result, 'exported')
+        }
+    }),
+
+    defineCommand({
+        name: 'import',
+        usage: '<file|dir>',
+        summary: 'Loads tables and items from NDJSON or from an S3 export into a running DynamoDB',
+        description: 'Loads tables and items from NDJSON or from an S3 export into a running DynamoDB. Missing tables are ' +
+            'created and items replace the existing ones with the same key.',
+        options: {
+            ...transferOptions,
+            concurrency: {type: 'integer', placeholder: '<count>', description: 'The number of BatchWriteItem requests in flight, defaults to 4'}
+        },
+        async run({format, tables, concurrency, ...args}, [source]) {
+            const result = await importTables(await runningEndpoint(args), requireTarget(source, 'import'), {
+                format: transferFormat(format),
+                tables,
+                concurrency
+            })
+
+            reportTransfer(result, 'imported')
+        }
+    }),
+
+    ...(['snapshot', 'restore'] as const).map(name => defineCommand({
+        name,
+        usage: '<name>',
+        summary: name === 'snapshot'
+            ? 'Saves the tables and items of a running DynamoDB under a name'
+            : 'Loads a snapshot into a running DynamoDB',
+        options: {
+            path: pathOption,
+            config: configOption,
+            port: portOption,
+            list: {type: 'boolean', short: 'l', description: 'Lists the available snapshots'}
+        },
+        async run({list, ...args}, [snapshot]) {
+            const snapshots = snapshotsDirectory(await installPath(args))
+
+            if (list) {
+                const names = await listSnapshots(snapshots)
+                if (names.length) names.forEach(name => reporter.message(name))
+                else reporter.info('No snapshots found')
+                return
+            }
+
+            if (!snapshot) throw new DynamoDBLocalError(
+                'INVALID_ARGUMENT',
+                `A snapshot name must be provided, e.g. ${styles.bold(`dynamodb-local ${name} my-snapshot`)}`
+            )
+
+            const endpoint = await runningEndpoint(args)
+            if (name === 'snapshot') {
+                await saveSnapshot(endpoint, snapshotPath(snapshots, snapshot))
+                reporter.success(`snapshot ${snapshot} saved`)
+            }
+
+            else {
+                const files = await readSnapshot(snapshotPath(snapshots, snapshot))
+                if (!files.includes('tables.json')) throw new DynamoDBLocalError(
+                    'SNAPSHOT_FAILED',
+                    `Snapshot ${snapshot} holds database files, restore it from the instance that created it`,
+                    {name: snapshot}
+                )
+
+                await loadSnapshot(endpoint, snapshotPath(snapshots, snapshot))
+                reporter.success(`snapshot ${snapshot} restored`)
+            }
+        }
+    })),
+
+    defineCommand({
+        name: 'cache',
+        usage: '<list|clean>',
+        summary: 'Lists or removes the cached archives',
+        options: {
+            cache: {type: 'string', placeholder: '<dir>', description: 'The archive cache directory'}
+        },
+        async run({cache = defaultCacheDirectory()}, [action]) {
+            if (action === 'list') {
+                const entries = await listCache(cache)
+                if (!entries.length) {
+                    reporter.info(`No archives cached in ${styles.underline(cache)}`)
+                }
+
+                for (const {url, sha256, size, cachedAt} of entries) {
+                    reporter.message(`${styles.bold(sha256.slice(0, 12))} ${(size / 1024 / 1024).toFixed(1)} MB cached ${cachedAt} from ${url}`)
+                }
+            }
+
+            else if (action === 'clean') {
+                const freed = await cleanCache(cache)
+                reporter.success(`cache cleaned, ${(freed / 1024 / 1024).toFixed(1)} MB freed`)
+            }
+
+            else throw new DynamoDBLocalError(
+                'INVALID_ARGUMENT',
+                `Expected ${styles.bold('dynamodb-local cache list')} or ${styles.bold('dynamodb-local cache clean')}`
+            )
+        }
+    })
+].map(command => ({...command, options: {...command.options, ...reporterOptions}}))
+
+/**
+ * Runs the command named by the first of `argv` and resolves with the exit code, see {@link exitCodes}.
+ */
+export async function run(argv: string[]) {
+    const [name, ...rest] = argv
+    reporter = createReporter()
+
+    if (!name || name === '--help' || name === '-h' || name === 'help') {
+        const command = commands.find(command => command.name === rest[0] || command.aliases?.includes(rest[0]))
+        console.log(command ? formatHelp(command) : formatUsage(commands))
+        return name ? exitCodes.success : exitCodes.usage
+    }
+
+    const command = commands.find(command => command.name === name || command.aliases?.includes(name))
+    if (!command) {
+        const suggestion = suggest(name, commands.flatMap(command => [command.name, ...command.aliases ?? []]))
+        reporter.error(
+            'INVALID_ARGUMENT',
+            `Unknown command ${styles.bold(name)}` + (suggestion ? `, did you mean ${styles.bold(suggestion)}?` : '') +
+            ` Run ${styles.bold('dynamodb-local --help')} for the list of commands`
+        )
+
+        return exitCodes.usage
+    }
+
+    try {
+        const {options, positionals, help} = parseArguments(rest, command)
+        if (help) {
+            console.log(formatHelp(command))
+            return exitCodes.success
+        }
+
+        const {yes, nonInteractive, reporter: format, ...commandOptions} = options as ParsedOptions<typeof reporterOptions>
+        if (format !== undefined && !reporterFormats.includes(format as ReporterFormat)) throw new DynamoDBLocalError(
+            'INVALID_ARGUMENT',
+            `Option ${styles.bold('--reporter')} expects one of ${reporterFormats.join(', ')}, got ${format}`,
+            {argument: '--reporter'}
+        )
+
+        reporter = createReporter({format: format as ReporterFormat | undefined, yes, interactive: nonInteractive ? false : undefined})
+        return await command.run(commandOptions, positionals, name) ?? exitCodes.success
+    }
+
+    catch (error) {
+        return report(error)
+    }
+}
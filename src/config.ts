@@ -0,0 +1,262 @@
+import {access, readFile} from 'node:fs/promises'
+import {join, resolve} from 'node:path'
+import {DynamoDBLocalError} from './error'
+import {loadFile} from './load-file'
+import {suggest} from './cli-parser'
+import {downloadEnvironmentVariables} from './download-dynamodb'
+import {cacheEnvironmentVariable} from './download-cache'
+import type {InstallOptions, StartOptions} from './dynamodb-local'
+
+export interface ConfigOptions {
+    /**
+     * The configuration file to read options from. If you don't specify this option, the first of
+     * {@link configFiles} found in the current directory is used, then the `dynamodb-local` key of its `package.json`.
+     * Use `false` to ignore configuration files and environment variables.
+     */
+    config?: string | false
+}
+
+/**
+ * The options that can be set in a configuration file or through {@link configEnvironmentVariables}.
+ */
+export interface Config extends Omit<StartOptions, 'signal' | 'config'>, Omit<InstallOptions, 'update' | 'config'> {
+    /**
+     * The install directory. Only read by the CLI, the Javascript API uses the path given to its constructor.
+     */
+    path?: string
+}
+
+export const configFiles = [
+    'dynamodb-local.config.json',
+    'dynamodb-local.config.js',
+    'dynamodb-local.config.mjs',
+    'dynamodb-local.config.ts'
+] as const
+
+/**
+ * The environment variables providing the options of {@link Config}. They take precedence over the configuration file.
+ */
+export const configEnvironmentVariables = {
+    path: 'DYNAMODB_LOCAL_PATH',
+    version: 'DYNAMODB_LOCAL_VERSION',
+    install: 'DYNAMODB_LOCAL_INSTALL',
+    port: 'DYNAMODB_LOCAL_PORT',
+    portFallback: 'DYNAMODB_LOCAL_PORT_FALLBACK',
+    reuseExisting: 'DYNAMODB_LOCAL_REUSE_EXISTING',
+    dbPath: 'DYNAMODB_LOCAL_DB_PATH',
+    inMemory: 'DYNAMODB_LOCAL_IN_MEMORY',
+    cors: 'DYNAMODB_LOCAL_CORS',
+    sharedDB: 'DYNAMODB_LOCAL_SHARED_DB',
+    delayTransientStatuses: 'DYNAMODB_LOCAL_DELAY_TRANSIENT_STATUSES',
+    tables: 'DYNAMODB_LOCAL_SCHEMA',
+    fixtures: 'DYNAMODB_LOCAL_DATA',
+    runtime: 'DYNAMODB_LOCAL_RUNTIME',
+    javaPath: 'DYNAMODB_LOCAL_JAVA_PATH',
+    dockerPath: 'DYNAMODB_LOCAL_DOCKER_PATH',
+    image: 'DYNAMODB_LOCAL_IMAGE',
+    ui: 'DYNAMODB_LOCAL_UI',
+    uiPort: 'DYNAMODB_LOCAL_UI_PORT',
+    trace: 'DYNAMODB_LOCAL_TRACE',
+    faults: 'DYNAMODB_LOCAL_FAULTS',
+    watch: 'DYNAMODB_LOCAL_WATCH',
+    jvmArgs: 'DYNAMODB_LOCAL_JVM_ARGS',
+    logs: 'DYNAMODB_LOCAL_LOGS',
+    logFile: 'DYNAMODB_LOCAL_LOG_FILE',
+    startTimeout: 'DYNAMODB_LOCAL_START_TIMEOUT',
+    retryInterval: 'DYNAMODB_LOCAL_RETRY_INTERVAL',
+    checksum: 'DYNAMODB_LOCAL_CHECKSUM',
+    proxy: 'DYNAMODB_LOCAL_PROXY',
+    cache: cacheEnvironmentVariable,
+    ...downloadEnvironmentVariables
+} as const satisfies {[K in keyof Config]-?: string}
+
+// `list` values are comma separated in the environment, `args` and `array` values are separated by whitespace
+type ValueType = 'string' | 'boolean' | 'integer' | 'port' | 'list' | 'args' | 'array' | 'string | false' | 'string | object'
+
+const valueTypes = {
+    path: 'string',
+    version: 'string',
+    install: 'boolean',
+    port: 'port',
+    portFallback: 'boolean',
+    reuseExisting: 'boolean',
+    dbPath: 'string',
+    inMemory: 'boolean',
+    cors: 'list',
+    sharedDB: 'boolean',
+    delayTransientStatuses: 'boolean',
+    tables: 'string | object',
+    fixtures: 'string | object',
+    runtime: 'string',
+    javaPath: 'string',
+    dockerPath: 'string',
+    image: 'string',
+    ui: 'boolean',
+    uiPort: 'port',
+    trace: 'string',
+    faults: 'array',
+    watch: 'list',
+    jvmArgs: 'args',
+    logs: 'boolean',
+    logFile: 'string | object',
+    startTimeout: 'integer',
+    retryInterval: 'integer',
+    checksum: 'string | false',
+    proxy: 'string | false',
+    cache: 'string | false',
+    baseUrl: 'string',
+    archive: 'string',
+    timeout: 'integer',
+    retries: 'integer'
+} as const satisfies {[K in keyof Config]-?: ValueType}
+
+const expected: Record<ValueType, string> = {
+    'string': 'a string',
+    'boolean': 'a boolean',
+    'integer': 'a non-negative integer',
+    'port': `a port number or 'auto'`,
+    'list': 'an array of strings',
+    'args': 'an array of strings',
+    'array': 'an array',
+    'string | false': 'a string or false',
+    'string | object': 'a string or an object'
+}
+
+function isValid(type: ValueType, value: unknown) {
+    switch (type) {
+        case 'boolean': return typeof value === 'boolean'
+        case 'integer': return Number.isInteger(value) && (value as number) >= 0
+        case 'port': return value === 'auto' || Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 65535
+        case 'list':
+        case 'args': return Array.isArray(value) && value.every(item => typeof item === 'string')
+        case 'array': return Array.isArray(value)
+        case 'string | false': return typeof value === 'string' || value === false
+        case 'string | object': return typeof value === 'string' || typeof value === 'object' && value !== null
+        default: return typeof value === 'string'
+    }
+}
+
+/**
+ * Checks that `config` only holds known options of the right type. `source` names where it comes from in the errors.
+ */
+export function validateConfig(config: unknown, source: string): Config {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new DynamoDBLocalError('INVALID_OPTION', `The configuration in ${source} must be an object`, {source})
+    }
+
+    for (const [name, value] of Object.entries(config)) {
+        if (!(name in valueTypes)) {
+            const suggestion = suggest(name, Object.keys(valueTypes))
+            throw new DynamoDBLocalError(
+                'INVALID_OPTION',
+                `Unknown option ${name} in ${source}` + (suggestion ? `, did you mean ${suggestion}?` : ''),
+                {option: name, source}
+            )
+        }
+
+        const type: ValueType = valueTypes[name as keyof Config]
+        if (value !== undefined && !isValid(type, value)) throw new DynamoDBLocalError(
+            'INVALID_OPTION',
+            `Option ${name} in ${source} must be ${expected[type]}, got ${JSON.stringify(value)}`,
+            {option: name, source}
+        )
+    }
+
+    return config as Config
+}
+
+function fromEnvironment(type: ValueType, option: string, name: string, value: string): unknown {
+    const details = {option, source: name}
+
+    switch (type) {
+        case 'boolean':
+            if (['true', '1'].includes(value)) return true
+            if (['false', '0'].includes(value)) return false
+            throw new DynamoDBLocalError('INVALID_OPTION', `${name} must be true, false, 1 or 0, got ${value}`, details)
+
+        case 'port':
+            if (value === 'auto') return value
+            // falls through
+        case 'integer':
+            if (!/^\d+$/.test(value)) throw new DynamoDBLocalError('INVALID_OPTION', `${name} must be a non-negative integer, got ${value}`, details)
+            return +value
+
+        case 'list':
+            return value.split(',').map(item => item.trim()).filter(Boolean)
+
+        case 'args':
+        case 'array':
+            return value.split(/\s+/).filter(Boolean)
+
+        case 'string | false':
+            return value === 'false' ? false : value
+
+        default:
+            return value
+    }
+}
+
+/**
+ * Reads the options set through {@link configEnvironmentVariables}. Empty variables are ignored.
+ */
+export function readEnvironment(env: NodeJS.ProcessEnv = process.env) {
+    const config: Record<string, unknown> = {}
+    for (const [option, name] of Object.entries(configEnvironmentVariables)) {
+        const value = env[name]
+        if (value) config[option] = fromEnvironment(valueTypes[option as keyof Config], option, name, value)
+    }
+
+    return config as Config
+}
+
+/**
+ * Reads the configuration file `file` or, when not given, the first of {@link configFiles} found in `directory`,
+ * then the `dynamodb-local` key of its `package.json`. Resolves to an empty object when there is none.
+ */
+export async function readConfigFile(file?: string, directory = process.cwd()): Promise<Config> {
+    if (file) {
+        return validateConfig(await loadFile(file), resolve(file))
+    }
+
+    for (const name of configFiles) {
+        const path = join(directory, name)
+        const exists = await access(path).then(() => true, () => false)
+        if (exists) return validateConfig(await loadFile(path), path)
+    }
+
+    let pkg: any
+    try {pkg = JSON.parse(await readFile(join(directory, 'package.json'), 'utf8'))} catch {return {}}
+    const config = pkg?.['dynamodb-local']
+    return config === undefined ? {} : validateConfig(config, `the dynamodb-local key of ${join(directory, 'package.json')}`)
+}
+
+/**
+ * Loads the options of the configuration file and of the environment, the latter taking precedence.
+ */
+export async function loadConfig({config}: ConfigOptions = {}): Promise<Config> {
+    if (config === false) return {}
+    return {...await readConfigFile(config), ...readEnvironment()}
+}
+
+/**
+ * Fills the options missing from `options` with the loaded configuration, keeping only the `keys` relevant to the caller.
+ */
+export async function withConfig<T extends ConfigOptions>(options: T, keys: readonly (keyof Config)[]): Promise<T> {
+    const config = await loadConfig(options)
+    const result: Record<string, unknown> = {}
+    for (const key of keys) {
+        if (config[key] !== undefined) result[key] = config[key]
+    }
+
+    for (const [key, value] of Object.entries(options)) {
+        if (value !== undefined) result[key] = value
+    }
+
+    // an option given by the caller replaces the configured one it can't be combined with
+    const given = options as Record<string, unknown>
+    for (const [option, other] of [['dbPath', 'inMemory'], ['inMemory', 'dbPath']]) {
+        if (given[option] && !given[other]) delete result[other]
+    }
+
+    return result as T
+}
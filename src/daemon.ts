@@ -0,0 +1,146 @@
+import {readFile, rm, writeFile} from 'node:fs/promises'
+import {join} from 'node:path'
+import {dynamodbRequest} from './dynamodb-client'
+import {isAlive, startTimeOf, terminatePid, type ExitStatus} from './kill-tree'
+import type {StopOptions} from './dynamodb-instance'
+
+/**
+ * Name of the file recording the DynamoDB process started with `detach`, in the install path.
+ */
+export const stateFile = 'DynamoDBLocal_state.json'
+
+export interface DaemonState {
+    pid: number
+    /**
+     * The start time of the process, to tell it apart from another process reusing its pid, e.g. after a reboot.
+     * `undefined` when the platform does not report it.
+     */
+    startTime?: string
+    port: number
+    endpoint: string
+    /**
+     * The directory where the instance writes its database file. `undefined` when running `inMemory`.
+     */
+    dbPath?: string
+    /**
+     * The installed version the instance runs, or the image for the docker runtime.
+     */
+    version?: string
+    /**
+     * The file the output of the process is appended to.
+     */
+    logFile: string
+    /**
+     * ISO 8601 date of the start.
+     */
+    startedAt: string
+}
+
+export interface DaemonStatus extends DaemonState {
+    /**
+     * Whether DynamoDB answers requests. `false` while it is still starting or when it hangs.
+     */
+    ready: boolean
+}
+
+export async function writeState(path: string, state: DaemonState) {
+    await writeFile(join(path, stateFile), JSON.stringify(state, null, 4))
+}
+
+/**
+ * Whether the process recorded in `state` is alive, and is not another process that reused its pid.
+ */
+function isRecorded({pid, startTime}: DaemonState) {
+    if (!Number.isInteger(pid) || !isAlive(pid)) return false
+    const current = startTime && startTimeOf(pid)
+    return !current || current === startTime
+}
+
+/**
+ * Reads the state of the detached process started from `path`. A state file left behind by a process that
+ * is no longer alive, or whose pid was reused, is removed. Without a recorded start time, the process must answer
+ * on its endpoint to be trusted.
+ */
+export async function readState(path: string): Promise<DaemonState | undefined> {
+    let state: DaemonState
+    try {
+        state = JSON.parse(await readFile(join(path, stateFile), 'utf8'))
+    }
+
+    catch {
+        return undefined
+    }
+
+    if (isRecorded(state) && (state.startTime || await isReady(state.endpoint))) {
+        return state
+    }
+
+    await removeState(path)
+    return undefined
+}
+
+export async function removeState(path: string) {
+    await rm(join(path, stateFile), {force: true})
+}
+
+export async function isReady(endpoint: string) {
+    try {
+        await dynamodbRequest(endpoint, 'ListTables', {Limit: 1}, {timeout: 1000})
+        return true
+    }
+
+    catch {
+        return false
+    }
+}
+
+/**
+ * A handle to a DynamoDB process running in the background, as returned by `start({detach: true})` and `attach()`.
+ * The process outlives the Node.js process that started it.
+ */
+export class DetachedInstance implements DaemonState {
+    readonly #path: string
+    #stopping?: Promise<ExitStatus>
+
+    readonly pid: number
+    readonly startTime?: string
+    readonly port: number
+    /**
+     * The URL at which the instance accepts DynamoDB requests.
+     */
+    readonly endpoint: string
+    readonly dbPath?: string
+    readonly version?: string
+    readonly logFile: string
+    readonly startedAt: string
+
+    constructor(path: string, {pid, startTime, port, endpoint, dbPath, version, logFile, startedAt}: DaemonState) {
+        this.#path = path
+        this.pid = pid
+        this.startTime = startTime
+        this.port = port
+        this.endpoint = endpoint
+        this.dbPath = dbPath
+        this.version = version
+        this.logFile = logFile
+        this.startedAt = startedAt
+    }
+
+    get running() {
+        return isRecorded(this)
+    }
+
+    /**
+     * Terminates the process with `SIGTERM`, escalating to `SIGKILL` when it does not exit within the grace period,
+     * and removes its state file. The exit code of a process started by another Node.js process can't be known,
+     * so the status only tells the signal that ended it. A pid reused by another process is not signaled.
+     */
+    public stop({gracePeriod}: StopOptions = {}) {
+        return this.#stopping ??= (async () => {
+            const signal = this.running ? await terminatePid(this.pid, gracePeriod) : null
+            await removeState(this.#path)
+            const status: ExitStatus = {code: null, signal}
+            return status
+        })()
+    }
+}
@@ -0,0 +1,95 @@
+import {execFile, spawn} from 'node:child_process'
+import {DynamoDBLocalError} from './error'
+import type {Reporter} from './reporter'
+
+export interface DockerRuntime {
+    /**
+     * The docker executable, as given or as found in `PATH`.
+     */
+    path: string
+    /**
+     * The version of the docker daemon, e.g. `24.0.7`.
+     */
+    version: string
+}
+
+/**
+ * The image run by the docker runtime, without a tag.
+ */
+export const dockerImage = 'amazon/dynamodb-local'
+
+const runtimes = new Map<string, Promise<DockerRuntime>>()
+
+function run(path: string, args: string[], timeout = 10000) {
+    return new Promise<string>((resolve, reject) => {
+        execFile(path, args, {timeout, windowsHide: true}, (error, stdout, stderr) => {
+            if (error) reject(Object.assign(error, {output: (stderr || stdout).trim()}))
+            else resolve(stdout.trim())
+        })
+    })
+}
+
+/**
+ * Checks that `docker` runs and that its daemon answers. Results are cached per executable.
+ */
+export function findDocker(dockerPath = 'docker'): Promise<DockerRuntime> {
+    if (!runtimes.has(dockerPath)) {
+        runtimes.set(dockerPath, run(dockerPath, ['version', '--format', '{{.Server.Version}}']).then(
+            version => ({path: dockerPath, version}),
+            error => {
+                throw new DynamoDBLocalError(
+                    'DOCKER_UNAVAILABLE',
+                    error.code === 'ENOENT'
+                        ? `Docker was not found. Install it, add it to PATH or set the dockerPath option`
+                        : `Unable to run ${dockerPath} version: ${error.output || error.message}`,
+                    {path: dockerPath},
+                    {cause: error}
+                )
+            }
+        ))
+
+        runtimes.get(dockerPath)!.catch(() => runtimes.delete(dockerPath))
+    }
+
+    return runtimes.get(dockerPath)!
+}
+
+/**
+ * Pulls `image` unless it is already present locally.
+ */
+export async function pullImage(dockerPath: string, image: string, reporter: Reporter) {
+    try {
+        await run(dockerPath, ['image', 'inspect', '--format', '{{.Id}}', image])
+        return
+    }
+
+    catch {}
+
+    reporter.progress({task: 'download', message: `Pulling ${image}`})
+    try {
+        await run(dockerPath, ['pull', image], 0)
+    }
+
+    catch (error: any) {
+        throw new DynamoDBLocalError(
+            'DOCKER_UNAVAILABLE',
+            `Unable to pull ${image}: ${error.output || error.message}`,
+            {path: dockerPath, image},
+            {cause: error}
+        )
+    }
+
+    finally {
+        reporter.progress({task: 'download', message: `Pulling ${image}`, done: true})
+    }
+}
+
+/**
+ * Removes the container `name` without waiting, for when the `docker run` process was killed and could
+ * not stop it. Safe to call from an `exit` handler.
+ */
+export function removeContainer(dockerPath: string, name: string) {
+    spawn(dockerPath, ['rm', '--force', name], {detached: true, stdio: 'ignore', windowsHide: true})
+        .on('error', () => {})
+        .unref()
+}
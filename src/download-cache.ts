@@ -0,0 +1,151 @@
+import {createHash} from 'node:crypto'
+import {copyFile, mkdir, readdir, readFile, rename, rm, stat, writeFile} from 'node:fs/promises'
+import {homedir} from 'node:os'
+import {join} from 'node:path'
+import {hashFile} from './manifest'
+
+/**
+ * The environment variable overriding the default cache directory.
+ */
+export const cacheEnvironmentVariable = 'DYNAMODB_LOCAL_CACHE'
+
+export interface CacheEntry {
+    /**
+     * The URL the archive was downloaded from.
+     */
+    url: string
+    /**
+     * The SHA-256 of the archive, which is also its name in the cache.
+     */
+    sha256: string
+    /**
+     * The size of the archive in bytes.
+     */
+    size: number
+    /**
+     * The `Last-Modified` header of the archive when it was downloaded.
+     */
+    lastModified?: string
+    /**
+     * ISO 8601 date of the download.
+     */
+    cachedAt: string
+}
+
+/**
+ * The directory archives are cached in: `DYNAMODB_LOCAL_CACHE` if set, otherwise the user cache directory of the platform.
+ */
+export function defaultCacheDirectory() {
+    const fromEnvironment = process.env[cacheEnvironmentVariable]
+    if (fromEnvironment) return fromEnvironment
+
+    switch (process.platform) {
+        case 'win32':
+            return join(process.env.LOCALAPPDATA || join(homedir(), 'AppData', 'Local'), 'dynamodb-local', 'Cache')
+        case 'darwin':
+            return join(homedir(), 'Library', 'Caches', 'dynamodb-local')
+        default:
+            return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'dynamodb-local')
+    }
+}
+
+const archivePath = (cache: string, sha256: string) => join(cache, 'archives', `${sha256}.tar.gz`)
+
+const entryPath = (cache: string, url: string) =>
+    join(cache, 'entries', createHash('sha256').update(url).digest('hex').slice(0, 32) + '.json')
+
+/**
+ * Writes `write`'s output to a temporary file next to `path` and renames it into place, so concurrent installs
+ * never see a partial file.
+ */
+async function writeAtomically(path: string, write: (temporary: string) => Promise<void>) {
+    const temporary = `${path}.${process.pid}-${Date.now()}.tmp`
+    try {
+        await write(temporary)
+        await rename(temporary, path)
+    }
+
+    finally {
+        await rm(temporary, {force: true})
+    }
+}
+
+/**
+ * Resolves with the path of the cached archive with the given SHA-256, or `undefined` when it is not cached.
+ * An archive whose content no longer matches its name is removed.
+ */
+export async function findArchive(cache: string, sha256: string) {
+    const path = archivePath(cache, sha256)
+    try {
+        if (await hashFile(path) === sha256) return path
+        await rm(path, {force: true})
+    }
+
+    catch {}
+
+    return undefined
+}
+
+/**
+ * Resolves with the last archive cached for `url` if it is still intact, e.g. to install offline.
+ */
+export async function findEntry(cache: string, url: string): Promise<(CacheEntry & {path: string}) | undefined> {
+    try {
+        const entry: CacheEntry = JSON.parse(await readFile(entryPath(cache, url), 'utf8'))
+        const path = await findArchive(cache, entry.sha256)
+        return path ? {...entry, path} : undefined
+    }
+
+    catch {
+        return undefined
+    }
+}
+
+/**
+ * Copies the verified archive at `file` into the cache and records that it was downloaded from `entry.url`.
+ */
+export async function storeArchive(cache: string, file: string, entry: Omit<CacheEntry, 'size' | 'cachedAt'>) {
+    const path = archivePath(cache, entry.sha256)
+    await mkdir(join(cache, 'archives'), {recursive: true})
+    await mkdir(join(cache, 'entries'), {recursive: true})
+    await writeAtomically(path, temporary => copyFile(file, temporary))
+
+    const {size} = await stat(path)
+    const record: CacheEntry = {...entry, size, cachedAt: new Date().toISOString()}
+    await writeAtomically(entryPath(cache, entry.url), temporary => writeFile(temporary, JSON.stringify(record, null, 4)))
+}
+
+/**
+ * Lists the cached archives along with the URLs they were downloaded from, most recent first.
+ */
+export async function listCache(cache = defaultCacheDirectory()) {
+    const entries: CacheEntry[] = []
+    const files = await readdir(join(cache, 'entries')).catch(() => [])
+
+    for (const file of files.filter(file => file.endsWith('.json'))) {
+        try {
+            const entry: CacheEntry = JSON.parse(await readFile(join(cache, 'entries', file), 'utf8'))
+            await stat(archivePath(cache, entry.sha256))
+            entries.push(entry)
+        }
+
+        catch {}
+    }
+
+    return entries.sort((a, b) => b.cachedAt.localeCompare(a.cachedAt))
+}
+
+/**
+ * Removes every cached archive. Resolves with the number of bytes freed.
+ */
+export async function cleanCache(cache = defaultCacheDirectory()) {
+    let freed = 0
+    const files = await readdir(join(cache, 'archives')).catch(() => [])
+    for (const file of files) {
+        freed += await stat(join(cache, 'archives', file)).then(({size}) => size, () => 0)
+    }
+
+    await rm(join(cache, 'archives'), {recursive: true, force: true})
+    await rm(join(cache, 'entries'), {recursive: true, force: true})
+    return freed
+}
@@ -1,79 +1,249 @@
 import {x} from 'tar'
-import {RequestOptions, request} from 'node:https'
 import {pipeline} from 'node:stream/promises'
-import {mkdir} from 'node:fs/promises'
-import {backgrounds, colors, log, msg} from './shell'
+import {createHash} from 'node:crypto'
+import {createWriteStream} from 'node:fs'
+import {mkdir, rm} from 'node:fs/promises'
+import {join, resolve} from 'node:path'
+import {pathToFileURL} from 'node:url'
+import {setTimeout} from 'node:timers/promises'
 import {DynamoDBLocalError} from './error'
+import {indexFiles, validateVersion, writeManifest} from './manifest'
+import {get, type GetOptions} from './http-get'
+import {defaultCacheDirectory, findArchive, findEntry, storeArchive} from './download-cache'
+import {SilentReporter, type Reporter} from './reporter'
+import {replaceDirectory} from './replace-directory'
 
-export function downloadDynamoDB(destination: string, verbose?: boolean) {
-    return new Promise<void>((resolve, reject) => {
-        const url = new URL('/dynamodb-local/dynamodb_local_latest.tar.gz', 'https://s3.us-west-2.amazonaws.com/')
-        const options: RequestOptions = {
-            method: 'GET',
-            host: url.host,
-            path: url.pathname,
-            protocol: url.protocol,
-            timeout: 3000
+export interface DownloadOptions extends GetOptions {
+    /**
+     * The release to download, e.g. `2023-12-14`. If you don't specify this option, the default is `latest`.
+     */
+    version?: string
+    /**
+     * The expected SHA-256 of the archive as a hex string. If you don't specify this option, the checksum
+     * published next to the archive (`{archive}.sha256`) is used. Use `false` to skip the verification.
+     */
+    checksum?: string | false
+    /**
+     * The URL the `dynamodb-local/dynamodb_local_{version}.tar.gz` archive path is resolved against, e.g. a mirror
+     * of the official bucket. `file:` URLs point to a local directory with the same layout. If you don't specify
+     * this option, `DYNAMODB_LOCAL_MIRROR` is used, then `https://s3.us-west-2.amazonaws.com/`.
+     */
+    baseUrl?: string
+    /**
+     * The URL or local path of the archive itself, e.g. a pre-downloaded tarball for offline installs. Takes precedence
+     * over `baseUrl`. If you don't specify this option, `DYNAMODB_LOCAL_ARCHIVE` is used. For local files,
+     * the checksum is only verified when `checksum` is set or a `{archive}.sha256` file sits next to the archive.
+     */
+    archive?: string
+    /**
+     * How many times a failed request is retried. Missing files and checksum mismatches are not retried.
+     * If you don't specify this option, `DYNAMODB_LOCAL_DOWNLOAD_RETRIES` is used, then `2`.
+     */
+    retries?: number
+    /**
+     * The directory downloaded archives are cached in, shared by every installation. An archive whose checksum is
+     * already cached is not downloaded again, and the last archive of a URL is used when it can't be reached.
+     * If you don't specify this option, `DYNAMODB_LOCAL_CACHE` is used, then the user cache directory.
+     * Use `false` to disable the cache.
+     */
+    cache?: string | false
+    /**
+     * Receives the progress of the download. If you don't specify this option, nothing is reported.
+     */
+    reporter?: Reporter
+}
+
+/**
+ * The environment variables providing the defaults of {@link DownloadOptions}.
+ */
+export const downloadEnvironmentVariables = {
+    baseUrl: 'DYNAMODB_LOCAL_MIRROR',
+    archive: 'DYNAMODB_LOCAL_ARCHIVE',
+    timeout: 'DYNAMODB_LOCAL_DOWNLOAD_TIMEOUT',
+    retries: 'DYNAMODB_LOCAL_DOWNLOAD_RETRIES'
+} as const
+
+function numberFromEnvironment(name: string) {
+    const value = process.env[name]
+    if (!value) return undefined
+    if (!/^\d+$/.test(value)) throw new DynamoDBLocalError('INVALID_OPTION', `${name} must be a non-negative integer, got ${value}`, {source: name})
+    return +value
+}
+
+/**
+ * Turns `archive` into a URL, treating anything without a scheme (or with a Windows drive letter) as a local path.
+ */
+function archiveUrl(archive: string) {
+    return /^[a-z][\w+.-]+:/i.test(archive) ? new URL(archive) : pathToFileURL(resolve(archive))
+}
+
+async function fetchChecksum(url: URL, options: GetOptions) {
+    const {body} = await get(new URL(url.href + '.sha256'), options)
+    let content = ''
+    for await (const chunk of body) content += chunk
+    const checksum = content.trim().split(/\s+/)[0]?.toLowerCase()
+    if (!/^[0-9a-f]{64}$/.test(checksum)) {
+        throw new DynamoDBLocalError('CHECKSUM_MISMATCH', `Invalid checksum published at ${url.href}.sha256`, {url: url.href})
+    }
+
+    return checksum
+}
+
+/**
+ * Downloads `url` into `file`, reporting the progress. Resolves with the SHA-256 of the content.
+ */
+async function fetchArchive(url: URL, file: string, options: GetOptions, reporter: Reporter) {
+    const {body, length, lastModified} = await get(url, options)
+    const hash = createHash('sha256')
+    const message = `Downloading DynamoDB from ${url.protocol === 'file:' ? url.pathname : url.host}`
+    let written = 0
+    let percentage = -1
+
+    if (!length) {
+        body.resume()
+        throw new DynamoDBLocalError('DOWNLOAD_FAILED', 'Unable to determine response size', {url: url.href})
+    }
+
+    body.on('data', (data: Buffer) => {
+        hash.update(data)
+        written += data.byteLength
+        // one event per percent
+        if (Math.floor((written * 100) / length) === percentage) return
+        percentage = Math.floor((written * 100) / length)
+        reporter.progress({task: 'download', message, current: written, total: length})
+    })
+
+    try {
+        await pipeline(body, createWriteStream(file))
+    }
+
+    finally {
+        reporter.progress({task: 'download', message, current: written, total: length, done: true})
+    }
+
+    if (written !== length) {
+        throw new DynamoDBLocalError('DOWNLOAD_FAILED', 'Download was interrupted', {url: url.href})
+    }
+
+    return {sha256: hash.digest('hex'), lastModified}
+}
+
+function isRetryable(error: unknown) {
+    if (DynamoDBLocalError.is(error, 'DOWNLOAD_FAILED')) {
+        const {status} = error.details
+        return status === undefined || status === 429 || status >= 500
+    }
+
+    return !(error instanceof DynamoDBLocalError)
+}
+
+/**
+ * Runs `task` until it succeeds or `retries` is exhausted, waiting a little longer after each failure.
+ */
+async function withRetries<T>(task: () => Promise<T>, retries: number, reporter: Reporter): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task()
         }
 
-        const req = request(options, async res => {
-            res.on('error', error => {
-                if (verbose) process.stdout.write('\n')
-                reject(!req.destroyed && new DynamoDBLocalError('network error', error.message, verbose))
-            })
+        catch (error: any) {
+            if (attempt >= retries || !isRetryable(error)) throw error
+            reporter.warning(`${error.message}, retrying (${attempt + 1}/${retries})`)
+            await setTimeout(1000 * 2 ** attempt)
+        }
+    }
+}
+
+/**
+ * Downloads, verifies and extracts DynamoDB into a staging directory next to `destination`, then swaps it
+ * into place. On failure `destination` is left as it was.
+ */
+export async function downloadDynamoDB(destination: string, options: DownloadOptions = {}) {
+    const staging = `${destination}.download-${process.pid}-${Date.now()}`
+    const archive = join(staging, 'dynamodb_local.tar.gz')
+    const extracted = join(staging, 'dynamodb')
+    const {reporter = new SilentReporter()} = options
+
+    try {
+        const {
+            version = 'latest',
+            checksum,
+            baseUrl = process.env[downloadEnvironmentVariables.baseUrl] || 'https://s3.us-west-2.amazonaws.com/',
+            archive: source = process.env[downloadEnvironmentVariables.archive] || undefined,
+            timeout = numberFromEnvironment(downloadEnvironmentVariables.timeout) ?? 30000,
+            retries = numberFromEnvironment(downloadEnvironmentVariables.retries) ?? 2,
+            proxy,
+            cache: cacheOption = defaultCacheDirectory()
+        } = options
+
+        const url = source
+            ? archiveUrl(source)
+            : new URL(`dynamodb-local/dynamodb_local_${validateVersion(version)}.tar.gz`, baseUrl)
+
+        // local archives are as available as the cache itself
+        const cache = cacheOption === false || url.protocol === 'file:' ? undefined : cacheOption
+        const getOptions = {timeout, proxy}
+        await mkdir(extracted, {recursive: true})
 
-            const length = res.headers['content-length']
-
-            try {
-                if (length) {
-                    let written = 0
-
-                    await mkdir(destination, {recursive: true})
-                    res.on('data', (data: Buffer) => {
-                        if (verbose) {
-                            written += data.byteLength
-                            const percentage = Math.round((written * 100) / +length) + '%'
-                            process.stdout.clearLine(0)
-                            process.stdout.cursorTo(0)
-                            process.stdout.write(
-                                msg.info(`Downloading DynamoDB from ${url.host} `) + 
-                                backgrounds.blue.bold(' ' + colors.white(percentage) + backgrounds.blue(' '))
-                            )
-                        }
-                    })
-
-                    res.on('end', () => {
-                        if (verbose) {
-                            process.stdout.clearLine(0)
-                            process.stdout.cursorTo(0)
-                        }
-                    })
-
-                    const untar = x({C: destination})
-                    await pipeline(res, untar)
-                    resolve(verbose ? log.success(`installation complete`) : undefined)
-                }
-
-                else throw new DynamoDBLocalError('error', 'Unable to determine response size', verbose)
+        const {file, sha256, lastModified, expected, cached} = await withRetries(async () => {
+            let expected = checksum === false ? undefined : checksum?.toLowerCase()
+            if (expected === undefined && checksum !== false) {
+                expected = await fetchChecksum(url, getOptions).catch(error => {
+                    // a tarball copied by hand rarely comes with its checksum file, and is trusted as much as its location
+                    if (url.protocol === 'file:' && DynamoDBLocalError.is(error, 'FILE_ERROR')) return undefined
+                    throw error
+                })
             }
 
-            catch (error: any) {
-                if (verbose) process.stdout.write('\n')
-                reject(new DynamoDBLocalError(error.name, error.message, verbose))
+            const hit = cache && expected && await findArchive(cache, expected)
+            if (hit) {
+                const entry = await findEntry(cache, url.href)
+                const lastModified = entry?.sha256 === expected ? entry?.lastModified : undefined
+                return {file: hit, sha256: expected!, lastModified, expected, cached: true}
             }
-        })
 
-        req.on('timeout', async () => {
-            req.destroy()
-            if (verbose) process.stdout.write('\n')
-            reject(new DynamoDBLocalError('network error', 'Request timed out', verbose))
+            return {file: archive, ...await fetchArchive(url, archive, getOptions, reporter), expected, cached: false}
+        }, retries, reporter).catch(async error => {
+            const entry = cache && isRetryable(error) ? await findEntry(cache, url.href) : undefined
+            if (!entry) throw error
+            reporter.warning(`${error.message}, using the archive cached on ${entry.cachedAt}`)
+            return {file: entry.path, sha256: entry.sha256, lastModified: entry.lastModified, expected: checksum || undefined, cached: true}
         })
 
-        req.on('error', async error => {
-            if (verbose) process.stdout.write('\n')
-            reject(new DynamoDBLocalError(error.name, error.message, verbose))
+        if (expected && sha256 !== expected) throw new DynamoDBLocalError(
+            'CHECKSUM_MISMATCH',
+            `The SHA-256 of the downloaded archive (${sha256}) does not match the expected one (${expected})`,
+            {url: url.href, expected, actual: sha256}
+        )
+
+        if (cache && !cached) {
+            await storeArchive(cache, file, {url: url.href, sha256, lastModified}).catch(error => {
+                reporter.warning(`Unable to cache the archive: ${error.message}`)
+            })
+        }
+
+        if (cached) reporter.info(`using cached archive ${sha256}`)
+        await x({C: extracted, file})
+        await writeManifest(extracted, {
+            version,
+            source: url.href,
+            sha256,
+            lastModified,
+            installedAt: new Date().toISOString(),
+            files: await indexFiles(extracted)
         })
+        await replaceDirectory(extracted, destination)
+        reporter.success(`installation complete`)
+    }
 
-        req.end()
-    })
-}
\ No newline at end of file
+    catch (error: any) {
+        if (error instanceof DynamoDBLocalError) throw error
+        // file system errors carry the failing system call, anything else comes from a broken archive
+        if (error.syscall) throw new DynamoDBLocalError('FILE_ERROR', error.message, {path: error.path ?? destination}, {cause: error})
+        throw new DynamoDBLocalError('DOWNLOAD_FAILED', error.message, {}, {cause: error})
+    }
+
+    finally {
+        await rm(staging, {recursive: true, force: true})
+    }
+}
@@ -0,0 +1,70 @@
+import {request} from 'node:http'
+import {DynamoDBLocalError} from './error'
+
+export interface RequestOptions {
+    /**
+     * An `AbortSignal` that cancels the request.
+     */
+    signal?: AbortSignal
+    /**
+     * Time in milliseconds after which the request is aborted.
+     */
+    timeout?: number
+}
+
+/**
+ * DynamoDB Local does not verify signatures but requires a well formed Authorization header. Unless `sharedDB`
+ * is set, it also keeps a separate database per access key and region, so the ones of the environment are used
+ * to see the same tables as the AWS SDKs.
+ */
+function authorization() {
+    const accessKey = process.env.AWS_ACCESS_KEY_ID || 'local'
+    const region = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'local'
+    return `AWS4-HMAC-SHA256 Credential=${accessKey}/20000101/${region}/dynamodb/aws4_request, SignedHeaders=host, Signature=local`
+}
+
+export function dynamodbRequest<T = any>(endpoint: string, operation: string, input: object = {}, {signal, timeout}: RequestOptions = {}) {
+    return new Promise<T>((resolve, reject) => {
+        const url = new URL(endpoint)
+        const body = JSON.stringify(input)
+        const req = request({
+            method: 'POST',
+            host: url.hostname,
+            port: url.port,
+            path: '/',
+            timeout,
+            signal,
+            headers: {
+                'Content-Type': 'application/x-amz-json-1.0',
+                'Content-Length': Buffer.byteLength(body),
+                'X-Amz-Target': `DynamoDB_20120810.${operation}`,
+                'Authorization': authorization()
+            }
+        }, res => {
+            const chunks: Buffer[] = []
+            res.on('data', (chunk: Buffer) => chunks.push(chunk))
+            res.on('error', error => reject(new DynamoDBLocalError('REQUEST_FAILED', error.message, {operation}, {cause: error})))
+            res.on('end', () => {
+                let output: any
+                try {output = JSON.parse(Buffer.concat(chunks).toString() || '{}')}
+                catch {output = {}}
+
+                if (res.statusCode === 200) {
+                    return resolve(output)
+                }
+
+                const type = output.__type ? String(output.__type).split('#').pop() : undefined
+                const message = output.message ?? output.Message ?? `Request failed with status code ${res.statusCode}`
+                reject(new DynamoDBLocalError('REQUEST_FAILED', message, {operation, type, status: res.statusCode}))
+            })
+        })
+
+        req.on('timeout', () => {
+            req.destroy()
+            reject(new DynamoDBLocalError('REQUEST_FAILED', `${operation} request timed out`, {operation}))
+        })
+
+        req.on('error', error => reject(new DynamoDBLocalError('REQUEST_FAILED', error.message, {operation}, {cause: error})))
+        req.end(body)
+    })
+}
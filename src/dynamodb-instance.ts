@@ -0,0 +1,276 @@
+import type {ChildProcess} from 'node:child_process'
+import {EventEmitter} from 'node:events'
+import {rm} from 'node:fs/promises'
+import {join} from 'node:path'
+import {DynamoDBLocalError} from './error'
+import {killTree, terminate, type ExitStatus} from './kill-tree'
+import type {AdminUI} from './admin-ui'
+import type {FaultProxy} from './fault-proxy'
+import {exportTables, importTables, type ExportOptions, type ImportOptions} from './transfer'
+import {copyDirectory, listSnapshots, loadSnapshot, readSnapshot, saveSnapshot, snapshotPath, writeSnapshot} from './snapshot'
+
+export interface InstanceInfo {
+    /**
+     * The port number the instance is listening on.
+     */
+    port: number
+    /**
+     * The directory where the instance writes its database file. `undefined` when running `inMemory`.
+     */
+    dbPath?: string
+}
+
+export interface InstanceHooks {
+    /**
+     * Spawns a new DynamoDB process with the same arguments and resolves once it is ready.
+     */
+    respawn: () => Promise<ChildProcess>
+    /**
+     * The directory where snapshots are stored.
+     */
+    snapshotsPath: string
+    /**
+     * Removes what a process killed with `SIGKILL` leaves behind, e.g. its container. Must not wait.
+     */
+    cleanup?: () => void
+}
+
+export interface StopOptions {
+    /**
+     * The time in milliseconds to wait for DynamoDB to exit after `SIGTERM` before sending `SIGKILL`.
+     * If you don't specify this option, the default is `5000`.
+     */
+    gracePeriod?: number
+}
+
+export interface InstanceEvents {
+    /**
+     * A line written by DynamoDB to its standard output.
+     */
+    stdout: (line: string) => void
+    /**
+     * A line written by DynamoDB to its standard error, e.g. the lines of a Java stack trace.
+     */
+    stderr: (line: string) => void
+    /**
+     * DynamoDB answers requests again after being restarted by `snapshot()` or `restore()`.
+     */
+    ready: () => void
+    /**
+     * The instance has terminated for good, with the same status `exited` resolves with. Comes after the last
+     * `stdout` and `stderr` lines.
+     */
+    exit: (status: ExitStatus) => void
+    /**
+     * The process or its log file failed. Only emitted when there is at least one listener.
+     */
+    error: (error: Error) => void
+}
+
+export interface DynamoDBLocalInstance {
+    on<E extends keyof InstanceEvents>(event: E, listener: InstanceEvents[E]): this
+    once<E extends keyof InstanceEvents>(event: E, listener: InstanceEvents[E]): this
+    off<E extends keyof InstanceEvents>(event: E, listener: InstanceEvents[E]): this
+    emit<E extends keyof InstanceEvents>(event: E, ...args: Parameters<InstanceEvents[E]>): boolean
+}
+
+/**
+ * A handle to a running DynamoDB Local process, as returned by `start()` and `launch()`.
+ * Emits the {@link InstanceEvents}.
+ */
+export class DynamoDBLocalInstance extends EventEmitter {
+    readonly #hooks: InstanceHooks
+    readonly #exited: Promise<ExitStatus>
+    #resolveExited!: (status: ExitStatus) => void
+    #process!: ChildProcess
+    #restarting?: Promise<void>
+    #stopping?: Promise<ExitStatus>
+    #running = true
+
+    /**
+     * The URL at which the instance accepts DynamoDB requests.
+     */
+    readonly endpoint: string
+    readonly port: number
+    readonly dbPath?: string
+    /**
+     * The web UI served for this instance when started with `ui`. It is closed when the instance terminates.
+     */
+    ui?: AdminUI
+    /**
+     * The proxy answering on `endpoint` when started with `trace` or `faults`, to inject faults at runtime.
+     * It is closed when the instance terminates.
+     */
+    proxy?: FaultProxy
+
+    constructor(process: ChildProcess, {port, dbPath}: InstanceInfo, hooks: InstanceHooks) {
+        super()
+        this.#hooks = hooks
+        this.#exited = new Promise(resolve => this.#resolveExited = resolve)
+        this.#attach(process)
+        this.port = port
+        this.dbPath = dbPath
+        this.endpoint = `http://localhost:${port}`
+    }
+
+    #attach(process: ChildProcess) {
+        this.#process = process
+        process.on('error', error => this.listenerCount('error') && this.emit('error', error))
+        // unlike 'exit', 'close' comes once the output is read to the end, so that the last lines are not lost
+        process.once('close', (code, signal) => {
+            if (this.#process === process && !this.#restarting) this.#exit({code, signal})
+        })
+    }
+
+    #exit(status: ExitStatus) {
+        this.#running = false
+        this.#resolveExited(status)
+        this.emit('exit', status)
+    }
+
+    get pid() {
+        return this.#process.pid
+    }
+
+    /**
+     * DynamoDB itself, behind the proxy if any, for requests that must not run into injected faults.
+     */
+    get #target() {
+        return this.proxy?.target ?? this.endpoint
+    }
+
+    get running() {
+        return this.#running
+    }
+
+    /**
+     * Resolves with the exit status once the instance has terminated for good. Restarts caused by
+     * `snapshot()` and `restore()` do not resolve it.
+     */
+    get exited() {
+        return this.#exited
+    }
+
+    /**
+     * Terminates the process and all of its children at once, without waiting. Used when the Node.js process exits.
+     */
+    public kill() {
+        const {pid} = this.#process
+        if (this.#running && pid !== undefined) {
+            killTree(pid, 'SIGKILL')
+            this.#hooks.cleanup?.()
+        }
+    }
+
+    /**
+     * Terminates the instance with `SIGTERM`, escalating to `SIGKILL` when it does not exit within the grace period.
+     * Resolves with the exit status once the process and all of its children have exited.
+     */
+    public stop({gracePeriod}: StopOptions = {}) {
+        return this.#stopping ??= (async () => {
+            await this.#restarting?.catch(() => {})
+            if (this.#running && (await terminate(this.#process, gracePeriod)).signal === 'SIGKILL') this.#hooks.cleanup?.()
+            return this.#exited
+        })()
+    }
+
+    /**
+     * Stops the process, runs `task` while no process holds the database files, then starts it again.
+     */
+    async #restart(task: () => Promise<void>) {
+        if (this.#restarting || this.#stopping) throw new DynamoDBLocalError(
+            'BUSY',
+            'DynamoDB is already restarting or stopping'
+        )
+
+        let status: ExitStatus | undefined
+        const restart = async () => {
+            status = await terminate(this.#process)
+            try {
+                await task()
+            }
+
+            finally {
+                this.#attach(await this.#hooks.respawn())
+                this.emit('ready')
+            }
+        }
+
+        try {
+            await (this.#restarting = restart())
+        }
+
+        catch (error) {
+            if (this.#process.exitCode !== null || this.#process.signalCode !== null) {
+                this.#exit(status!)
+            }
+
+            throw error
+        }
+
+        finally {
+            this.#restarting = undefined
+        }
+    }
+
+    /**
+     * Saves the current state of the database under `name`, replacing any snapshot with the same name.
+     * Instances writing to `dbPath` are briefly stopped while their database files are copied,
+     * `inMemory` instances are exported table by table over the DynamoDB API.
+     */
+    public async snapshot(name: string) {
+        const path = snapshotPath(this.#hooks.snapshotsPath, name)
+
+        if (this.dbPath) {
+            const dbPath = this.dbPath
+            await writeSnapshot(path, staging => this.#restart(() => copyDirectory(dbPath, join(staging, 'db'))))
+        }
+
+        else await saveSnapshot(this.#target, path)
+    }
+
+    /**
+     * Brings the database back to the state saved by `snapshot(name)`.
+     */
+    public async restore(name: string) {
+        const path = snapshotPath(this.#hooks.snapshotsPath, name)
+        const files = await readSnapshot(path)
+
+        if (files.includes('tables.json')) {
+            return loadSnapshot(this.#target, path)
+        }
+
+        if (!this.dbPath) throw new DynamoDBLocalError(
+            'SNAPSHOT_FAILED',
+            `Snapshot ${name} holds database files and cannot be restored into an inMemory instance`,
+            {name}
+        )
+
+        const dbPath = this.dbPath
+        await this.#restart(async () => {
+            await rm(dbPath, {recursive: true, force: true})
+            await copyDirectory(join(path, 'db'), dbPath)
+        })
+    }
+
+    /**
+     * Lists the names of the available snapshots.
+     */
+    public listSnapshots() {
+        return listSnapshots(this.#hooks.snapshotsPath)
+    }
+
+    /**
+     * Streams the tables and items to the NDJSON file or S3 export directory `path`, without stopping the instance.
+     */
+    public export(path: string, options?: ExportOptions) {
+        return exportTables(this.#target, path, options)
+    }
+
+    /**
+     * Streams the tables and items written by `export()`, or by a DynamoDB export to S3, into the instance.
+     */
+    public import(path: string, options?: ImportOptions) {
+        return importTables(this.#target, path, options)
+    }
+}
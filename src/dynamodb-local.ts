@@ -1,13 +1,31 @@
 import {spawn, type ChildProcess} from 'node:child_process'
-import {rm, mkdir, readdir} from 'node:fs/promises'
-import {join, normalize, resolve as path_resolve, parse} from 'node:path'
-import {Interface, createInterface} from 'node:readline/promises'
+import {once} from 'node:events'
+import {setTimeout} from 'node:timers/promises'
+import {rm, mkdir, readdir, open, readFile} from 'node:fs/promises'
+import type {Dirent} from 'node:fs'
+import {join, normalize, resolve as path_resolve, parse, dirname} from 'node:path'
+import {createInterface} from 'node:readline'
 import {DynamoDBLocalError} from './error'
-import {libIndex} from './lib-index'
-import {styles, msg, log} from './shell'
-import {downloadDynamoDB} from './download-dynamodb'
-
-export interface DynamoDBOptions {
+import {styles} from './shell'
+import {downloadDynamoDB, type DownloadOptions} from './download-dynamodb'
+import {waitForDynamoDB, type ReadinessOptions} from './wait-for-dynamodb'
+import {DynamoDBLocalInstance, type StopOptions} from './dynamodb-instance'
+import {startTimeOf, terminate, type ExitStatus} from './kill-tree'
+import {findPortOwner, getFreePort, getNextFreePort, isPortFree} from './free-port'
+import {ExistingInstance} from './existing-instance'
+import {DockerBackend, JavaBackend, runtimes, type LaunchOptions, type RuntimeBackend, type RuntimeCommand, type RuntimeInfo, type RuntimeOptions} from './runtime'
+import {AdminUI, type AdminUIOptions} from './admin-ui'
+import {FaultProxy, parseFault, type ProxyOptions} from './fault-proxy'
+import {LogFile, type OutputOptions, type OutputStream} from './log-file'
+import {DetachedInstance, isReady, readState, writeState, stateFile, type DaemonState, type DaemonStatus} from './daemon'
+import {seed, loadTables, loadFixtures, type Fixtures, type SeedOptions, type TableDefinition} from './seed'
+import {watchSeed, type WatchOptions} from './watch'
+import {snapshotsDirectory} from './snapshot'
+import {readManifest, validateVersion, verifyInstallation, type Manifest, type VerifyResult} from './manifest'
+import {withConfig, type Config, type ConfigOptions} from './config'
+import {SilentReporter, createReporter, type Reporter} from './reporter'
+
+export interface DynamoDBOptions extends SeedOptions {
     /**
      * Enables support for cross-origin resource sharing (CORS) for JavaScript.
      * You must provide an *allow* list of specific domains in the form of an array of strings.
@@ -35,14 +53,83 @@ export interface DynamoDBOptions {
     inMemory?: boolean
     /**
      * The port number that DynamoDB uses to communicate with your application.
-     * If you don't specify this option, the default port is `8000`.
+     * If you don't specify this option, the default port is `8000`. Use `0` or `'auto'` to pick a free port.
+     */
+    port?: number | 'auto'
+    /**
+     * When `port` is taken, uses the next free port instead of rejecting with a `PORT_IN_USE` error.
      */
-    port?: number
+    portFallback?: boolean
     /**
      * If you specify `sharedDB`, DynamoDB uses a single database file instead of
      * separate files for each credential and Region.
      */
     sharedDB?: boolean
+    /**
+     * The `java` executable, or the Java installation directory, to run DynamoDB with.
+     * If you don't specify this option, `JAVA_HOME` is used, then the first `java` in `PATH`.
+     */
+    javaPath?: string
+    /**
+     * Extra arguments passed to the JVM before `-jar`, e.g. `['-Xmx1g', '-Dsqlite4java.library.path=/opt/native']`.
+     */
+    jvmArgs?: string[]
+}
+
+export interface VerifyOptions {
+    /**
+     * The installed version to verify. If you don't specify this option, every installed version is verified.
+     */
+    version?: string
+    /**
+     * Whether to download damaged installations again from the source recorded in their manifest.
+     */
+    repair?: boolean
+}
+
+export interface InstallOptions extends Omit<DownloadOptions, 'reporter'>, ConfigOptions {
+    /**
+     * Downloads DynamoDB again even when the version is already installed. If you don't specify this option,
+     * the reporter is asked, which prompts on the CLI.
+     */
+    update?: boolean
+}
+
+export interface StartOptions extends DynamoDBOptions, RuntimeOptions, AdminUIOptions, ProxyOptions, WatchOptions, ReadinessOptions, OutputOptions, ConfigOptions {
+    /**
+     * Downloads and installs DynamoDB first when it is not installed. If you don't specify this option,
+     * the reporter is asked, which prompts on the CLI.
+     */
+    install?: boolean
+    /**
+     * The installed version to run, see `versions()`. If you don't specify this option, the installation made
+     * without a version is used, or else `latest`.
+     */
+    version?: string
+    /**
+     * When a DynamoDB already answers on `port`, `start()` resolves with a handle to it instead of starting
+     * another one. The handle is the `DetachedInstance` when it was started in the background from this install path,
+     * else an `ExistingInstance` that `stop()` leaves running. Has no effect on `launch()`.
+     */
+    reuseExisting?: boolean
+}
+
+export interface DetachOptions {
+    /**
+     * Starts DynamoDB in the background, where it keeps running after the Node.js process exits. Its pid, port,
+     * dbPath and version are recorded in `DynamoDBLocal_state.json` in the install path, for `status()`, `attach()`
+     * and `stop()` to find it later. The output is appended to `logFile`, without rotation, or else to
+     * `DynamoDBLocal.log` in the install path.
+     */
+    detach?: boolean
+}
+
+export interface BuilderOptions {
+    /**
+     * Receives the messages and the progress, and answers the questions. If you don't specify this option,
+     * nothing is reported and every question is answered with no.
+     */
+    reporter?: Reporter
 }
 
 function bound<T extends DynamoDBLocalBuilder, A extends any[], R>(
@@ -56,25 +143,38 @@ function bound<T extends DynamoDBLocalBuilder, A extends any[], R>(
     })
 }
 
-const defaultPath = join(__dirname, '..', 'dynamodb')
+export const defaultPath = join(__dirname, '..', 'dynamodb')
 
-abstract class DynamoDBLocalBuilder {
-    static async #buildLibIndex() {
-        // TODO fetch files and create lib index
-    }
+/**
+ * The `watch` files, then the schema and fixtures files.
+ */
+function watchedFiles({watch = [], tables, fixtures}: SeedOptions & WatchOptions) {
+    return [...new Set([...watch, ...[tables, fixtures].filter((file): file is string => typeof file === 'string')])]
+}
+
+const installConfig = ['version', 'checksum', 'baseUrl', 'archive', 'proxy', 'timeout', 'retries', 'cache'] as const satisfies readonly (keyof Config)[]
+const startConfig = [
+    'version', 'install', 'port', 'dbPath', 'inMemory', 'cors', 'sharedDB', 'delayTransientStatuses', 'tables', 'fixtures',
+    'javaPath', 'jvmArgs', 'logs', 'logFile', 'startTimeout', 'retryInterval', 'portFallback', 'reuseExisting',
+    'runtime', 'dockerPath', 'image', 'ui', 'uiPort', 'trace', 'faults', 'watch'
+] as const satisfies readonly (keyof Config)[]
 
+abstract class DynamoDBLocalBuilder {
     static async #find(path: string) {
         path = path_resolve(normalize(path))
+        if ((await readManifest(path))?.files) {
+            const {missing, modified} = await verifyInstallation(path)
+            return !missing.length && !modified.length
+        }
+
+        // installations made by older releases have no file list in their manifest
         try {
             const files = await readdir(path, {withFileTypes: true})
             const jar = files.some(file => file.name === 'DynamoDBLocal.jar' && file.isFile())
             const lib = files.some(file => file.name === 'DynamoDBLocal_lib' && file.isDirectory())
 
             if (jar && lib) {
-                const libFiles = await readdir(join(path, 'DynamoDBLocal_lib'))
-                if (libIndex.every(file => libFiles.includes(file))) {
-                    return true
-                }
+                return (await readdir(join(path, 'DynamoDBLocal_lib'))).some(file => file.endsWith('.jar'))
             }
         }
 
@@ -83,83 +183,150 @@ abstract class DynamoDBLocalBuilder {
         return false
     }
 
+    static async #portInUse(port: number) {
+        const owner = await findPortOwner(port)
+        const by = owner ? ` by ${owner.command ?? 'process'} (pid ${owner.pid})` : ''
+        return new DynamoDBLocalError(
+            'PORT_IN_USE',
+            `Port ${port} is already in use${by}. Choose another port, or set portFallback to use the next free one`,
+            {port, ...owner}
+        )
+    }
+
     readonly #path
-    readonly #verbose
-    #dynamodb?: ChildProcess
+    readonly #reporter: Reporter
+    readonly #instances = new Set<DynamoDBLocalInstance>()
+    #dynamodb?: DynamoDBLocalInstance
 
-    protected constructor(path: string, options?: {verbose: boolean}) {
+    protected constructor(path: string, {reporter = new SilentReporter()}: BuilderOptions = {}) {
         this.#path = path_resolve(normalize(path))
-        if (options?.verbose) this.#verbose = true
-        process.on('exit', () => this.#dynamodb?.connected && this.stop())
+        this.#reporter = reporter
+        process.on('exit', () => this.#instances.forEach(instance => instance.kill()))
     }
 
-    async #generateArgs({cors, port, inMemory, dbPath, sharedDB, delayTransientStatuses}: DynamoDBOptions) {
-        const libpath = join(this.#path, 'DynamoDBLocal_lib')
-        const jarpath = join(this.#path, 'DynamoDBLocal.jar')
-        const args = [`-Djava.library.path=${libpath}`, `-jar`, jarpath]
-        if (Array.isArray(cors) && cors?.length && cors.every(c => typeof c === 'string'))
-            args.push('-cors', cors.join(', '))
-
-        if (port !== undefined) {
-            if (Number.isInteger(port)) args.push('-port', String(port))
-            else throw new DynamoDBLocalError('config error', 'Port must be an Integer', this.#verbose)
+    /**
+     * Validates the options of a DynamoDB process, picks its port and creates its database directory.
+     */
+    async #launchOptions(
+        {cors, port = 8000, portFallback, inMemory, dbPath, sharedDB, delayTransientStatuses, jvmArgs = []}: DynamoDBOptions,
+        defaultDbPath: (port: number) => string
+    ): Promise<LaunchOptions> {
+        if (!Array.isArray(jvmArgs) || !jvmArgs.every(arg => typeof arg === 'string'))
+            throw new DynamoDBLocalError('INVALID_OPTION', 'jvmArgs must be an array of strings', {option: 'jvmArgs'})
+
+        if (port === 'auto' || port === 0)
+            port = await getFreePort()
+
+        if (!Number.isInteger(port)) {
+            throw new DynamoDBLocalError('INVALID_OPTION', 'Port must be an Integer or \'auto\'', {option: 'port'})
         }
 
-        if (inMemory) {
-            if (!dbPath) args.push('-inMemory')
-            else throw new DynamoDBLocalError(
-                'config error',
-                `When option ${styles.underline('dbPath')} is set, option ${styles.underline('inMemory')} cannot be used and must be omitted`,
-                this.#verbose
-            )
+        // the runtime would only fail once started, with an error buried in its output
+        if (!await isPortFree(port)) {
+            if (!portFallback) throw await DynamoDBLocalBuilder.#portInUse(port)
+            const next = await getNextFreePort(port)
+            this.#reporter.warning(`Port ${port} is already in use, using port ${next} instead`)
+            port = next
         }
 
-        if (dbPath && typeof dbPath === 'string') {
-            if (!inMemory) {
-                const path = path_resolve(normalize(dbPath))
-                try {await mkdir(path, {recursive: true})} catch {}
-                args.push('-dbPath', path, '-optimizeDbBeforeStartup')
-            }
+        if (inMemory && dbPath) throw new DynamoDBLocalError(
+            'INVALID_OPTION',
+            `When option ${styles.underline('dbPath')} is set, option ${styles.underline('inMemory')} cannot be used and must be omitted`,
+            {option: 'inMemory'}
+        )
+
+        const path = inMemory ? undefined : dbPath && typeof dbPath === 'string'
+            ? path_resolve(normalize(dbPath))
+            : defaultDbPath(port)
+
+        if (path) try {await mkdir(path, {recursive: true})} catch {}
+
+        return {
+            port,
+            dbPath: path,
+            inMemory: !!inMemory,
+            optimizeDbBeforeStartup: !!dbPath,
+            cors: Array.isArray(cors) && cors.every(c => typeof c === 'string') ? cors : undefined,
+            sharedDB: !!sharedDB,
+            delayTransientStatuses: !!delayTransientStatuses,
+            jvmArgs
         }
+    }
 
-        if (!dbPath && !inMemory) {
-            const path = join(this.#path, 'DynamoDBLocal_db')
-            try {await mkdir(path, {recursive: true})} catch {}
-            args.push('-dbPath', path)
+    /**
+     * Resolves the directory of an installed `version`. Without a version, installations made before versions
+     * were introduced, directly in the install path, take precedence over `latest`.
+     */
+    async #installation(version?: string) {
+        if (!version && await DynamoDBLocalBuilder.#find(this.#path)) {
+            return this.#path
         }
 
-        if (delayTransientStatuses)
-            args.push('-delayTransientStatuses')
+        return join(this.#path, validateVersion(version ?? 'latest'))
+    }
 
-        if (sharedDB)
-            args.push('-sharedDb')
+    /**
+     * Lists the versions installed side by side in the install path, as recorded at install time.
+     */
+    @bound public async versions() {
+        const versions: (Manifest & {path: string})[] = []
+        let entries: Dirent[] = []
+        try {entries = await readdir(this.#path, {withFileTypes: true})} catch {}
+
+        for (const entry of entries) {
+            const path = join(this.#path, entry.name)
+            if (entry.isDirectory() && await DynamoDBLocalBuilder.#find(path)) {
+                const manifest = await readManifest(path)
+                versions.push({version: entry.name, source: '', installedAt: '', ...manifest, path})
+            }
+        }
 
-        return args
+        return versions.sort((a, b) => a.version.localeCompare(b.version))
     }
 
-    @bound public async uninstall() {
+    @bound public async uninstall({version}: {version?: string} = {}) {
+        if (version) {
+            const path = join(this.#path, validateVersion(version))
+            if (!await DynamoDBLocalBuilder.#find(path)) {
+                throw new DynamoDBLocalError('NOT_INSTALLED', `DynamoDB ${version} is not installed at ` + styles.underline(this.#path), {path: this.#path, version})
+            }
+
+            try {
+                await rm(path, {recursive: true})
+                return this.#reporter.info(`DYNAMODB ${version.toUpperCase()} UNINSTALLED`)
+            }
+
+            catch (error: any) {
+                throw new DynamoDBLocalError('UNINSTALL_FAILED', error.message, {files: [path]}, {cause: error})
+            }
+        }
+
+        const versions = await this.versions()
         const installed = await DynamoDBLocalBuilder.#find(this.#path)
-        if (!installed) {
-            throw new DynamoDBLocalError('error', 'DynamoDB is not installed at ' + styles.underline(this.#path), this.#verbose)
+        if (!installed && !versions.length) {
+            throw new DynamoDBLocalError('NOT_INSTALLED', 'DynamoDB is not installed at ' + styles.underline(this.#path), {path: this.#path})
         }
 
         if (this.#path === defaultPath) {
             try {
                 await rm(this.#path, {recursive: true})
-                return this.#verbose ? log.info('DYNAMODB UNINSTALLED') : undefined
+                return this.#reporter.info('DYNAMODB UNINSTALLED')
             }
 
             catch (error: any) {
-                throw new DynamoDBLocalError(error.name, error.message, this.#verbose)
+                throw new DynamoDBLocalError('UNINSTALL_FAILED', error.message, {files: [this.#path]}, {cause: error})
             }
         }
 
         const files = [
-            join(this.#path, 'DynamoDBLocal_lib'),
-            join(this.#path, 'DynamoDBLocal.jar'),
-            join(this.#path, 'LICENSE.txt'),
-            join(this.#path, 'README.txt'),
-            join(this.#path, 'THIRD-PARTY-LICENSES.txt')
+            ...versions.map(({path}) => path),
+            ...installed ? [
+                join(this.#path, 'DynamoDBLocal_lib'),
+                join(this.#path, 'DynamoDBLocal.jar'),
+                join(this.#path, 'LICENSE.txt'),
+                join(this.#path, 'README.txt'),
+                join(this.#path, 'THIRD-PARTY-LICENSES.txt')
+            ] : []
         ]
 
         const promises = files.map(file => rm(file, {recursive: true}))
@@ -168,169 +335,637 @@ abstract class DynamoDBLocalBuilder {
 
         settled.forEach((e, i) => {
             if (e.status === 'rejected') {
-                rejected.push(parse(files[i]).name)
+                rejected.push(parse(files[i]).base)
             }
         })
 
         if (rejected.length) {
-            if (rejected.includes('DynamoDBLocal_lib') || rejected.includes('DynamoDBLocal.jar')) {
+            if (rejected.some(file => !['LICENSE.txt', 'README.txt', 'THIRD-PARTY-LICENSES.txt'].includes(file))) {
                 throw new DynamoDBLocalError(
-                    'uninstall error',
+                    'UNINSTALL_FAILED',
                     `The following files could not be removed: [${rejected.join(', ')}]`,
-                    this.#verbose
+                    {files: rejected}
                 )
             }
 
             else {
-                if (this.#verbose) log.warning(
+                this.#reporter.warning(
                     `DynamoDB was successfully uninstalled but the following files were not removed: [${rejected.join(', ')}]`
                 )
             }
         }
 
         else {
-            if (this.#verbose) log.info('DYNAMODB UNINSTALLED')
+            this.#reporter.info('DYNAMODB UNINSTALLED')
         }
     }
 
-    @bound public async install({update}: {update?: boolean} = {}) {
-        const installed = await DynamoDBLocalBuilder.#find(this.#path)
+    @bound public async install(options: InstallOptions = {}) {
+        const {update, version = 'latest', config, ...downloadOptions} = await withConfig(options, installConfig)
+        const path = join(this.#path, validateVersion(version))
+        const installed = await DynamoDBLocalBuilder.#find(path)
         if (installed) {
-            if (this.#verbose) {
-                let input: Interface | undefined;
-                try {
-                    const question = msg.warning('DynamoDB is already installed at: ' + styles.underline(this.#path)) + `\n` +
-                    msg.info('Overwrite current installation? (Y/N): ')
-                    input = createInterface(process.stdin, process.stdout)
-                    const answer = await input.question(question)
-                    if (!['yes', 'y', 'ok'].includes(answer.toLowerCase())) {
-                        return log.fail('installation canceled')
-                    }
-                }
+            if (update === undefined) this.#reporter.warning(`DynamoDB ${version} is already installed at: ` + styles.underline(path))
+            if (!(update ?? await this.#reporter.confirm('Overwrite current installation?'))) {
+                return this.#reporter.fail('installation canceled')
+            }
+        }
 
-                finally {
-                    input?.close()
+        return downloadDynamoDB(path, {...downloadOptions, version, reporter: this.#reporter})
+    }
+
+    /**
+     * Checks the installed files against the manifest written at install time. Every installed version is checked
+     * unless `version` is given. Broken installations are downloaded again when `repair` is set or, when it is not
+     * specified, when the reporter accepts, e.g. on a prompt of the CLI.
+     */
+    @bound public async verify({version, repair}: VerifyOptions = {}) {
+        const paths: string[] = []
+        if (version) {
+            paths.push(join(this.#path, validateVersion(version)))
+        }
+
+        else {
+            if (await DynamoDBLocalBuilder.#find(this.#path)) paths.push(this.#path)
+            let entries: Dirent[] = []
+            try {entries = await readdir(this.#path, {withFileTypes: true})} catch {}
+            for (const entry of entries) {
+                const path = join(this.#path, entry.name)
+                if (entry.isDirectory() && (await readManifest(path) || await DynamoDBLocalBuilder.#find(path))) {
+                    paths.push(path)
                 }
             }
+        }
 
-            else if (!update) {
-                return
-            }
+        if (version && !await readManifest(paths[0]) && !await DynamoDBLocalBuilder.#find(paths[0])) {
+            throw new DynamoDBLocalError('NOT_INSTALLED', `DynamoDB ${version} is not installed at ` + styles.underline(this.#path), {path: this.#path, version})
         }
 
-        return downloadDynamoDB(this.#path, this.#verbose)
-    }
+        if (!paths.length) {
+            throw new DynamoDBLocalError('NOT_INSTALLED', 'DynamoDB is not installed at ' + styles.underline(this.#path), {path: this.#path})
+        }
 
-    @bound public async start(args?: DynamoDBOptions & {install?: boolean}) {
-        if (!this.#dynamodb) {
-            const installed  = await DynamoDBLocalBuilder.#find(this.#path)
-            if (!installed) {
-                if (this.#verbose) {
-                    log.warning('DynamoDB not found at ' + styles.underline(this.#path))
-                    let input
-                    try {
-                        input = createInterface(process.stdin, process.stdout)
-                        const answer = await input.question(msg.info('Do you want to download and install now? (Y/N): '))
-                        if (!['y', 'yes', 'ok'].includes(answer.toLowerCase())) {
-                            return
-                        }
-
-                        await this.install()
-                    }
-
-                    finally {
-                        input?.close()
-                    }
-                }
+        const results: (VerifyResult & {version: string, path: string, repaired: boolean})[] = []
+        for (const path of paths) {
+            const manifest = await readManifest(path)
+            const result = await verifyInstallation(path, {hashes: true})
+            results.push({...result, version: manifest?.version ?? parse(path).base, path, repaired: false})
+        }
 
-                else if (args?.install) {
-                    await this.install()
-                }
+        const broken = results.filter(({missing, modified}) => missing.length || modified.length)
 
-                else throw new DynamoDBLocalError('error', 'DynamoDB not found at ' + styles.underline(this.#path), this.#verbose)
+        for (const {version, verifiable, missing, modified} of results) {
+            if (!verifiable) this.#reporter.warning(`${version} has no file list to verify against, reinstall it to enable verification`)
+            else if (!missing.length && !modified.length) this.#reporter.success(`${version} ok`)
+            else {
+                this.#reporter.warning(`${version} is damaged`)
+                missing.forEach(file => this.#reporter.detail('missing', file))
+                modified.forEach(file => this.#reporter.detail('modified', file))
             }
+        }
 
-            const $args = await this.#generateArgs(args ?? {})
-            if (this.#verbose) process.stdout.write(msg.info('Initializing DynamoDB'))
-            this.#dynamodb = spawn('java', $args, {shell: true})
-            this.#dynamodb.on('exit', () => this.#verbose && log.fail('dynamodb terminated'))
-            const interval = this.#verbose ? setInterval(() => process.stdout.write('.'), 200) : undefined
-            return new Promise<void>((resolve, reject) => {
-                this.#dynamodb!.on('error', error => {
-                    clearInterval(interval)
-                    reject(new DynamoDBLocalError(error.name, error.message, this.#verbose))
-                })
+        if (broken.length && repair === undefined) {
+            repair = await this.#reporter.confirm(`Repair ${broken.map(({version}) => version).join(', ')}?`)
+        }
 
-                this.#dynamodb!.stdout?.on('data', data => {
-                    if (String(data).match(/CorsParams/)) setTimeout(() => {
-                        clearInterval(interval)
-                        if (this.#verbose) {
-                            process.stdout.clearLine(0)
-                            process.stdout.cursorTo(0)
-                            process.stdout.write(msg.success('dynamodb started') + '\n')
-                            console.log(msg.info('port: ') + (args?.port || '8000 '))
-                            console.log(msg.info('inMemory: ') + (args?.inMemory ? 'true' : 'false'))
-                            console.log(msg.info('dbPath: ') + (args?.inMemory ? '-' : path_resolve(args?.dbPath ?? join(this.#path, 'DynamoDBLocal_db'))))
-                            console.log(msg.info('sharedDB: ') + (args?.sharedDB ? 'true' : 'false'))
-                            console.log(msg.info('delayTransientStatuses: ') + (args?.delayTransientStatuses ? 'true'  : 'false'))
-                            console.log(msg.info('cors: ') + '[' + (args?.cors?.join(', ') ?? '*') + ']')
-                            console.log(msg.message(`press ${styles.bold('CTRL + C')} to terminate`))
-                        }
-                        resolve()
-                    }, 2000)
+        if (repair) {
+            for (const result of broken) {
+                const manifest = await readManifest(result.path)
+                await downloadDynamoDB(result.path, {
+                    version: manifest?.version,
+                    archive: manifest?.source,
+                    checksum: manifest?.sha256,
+                    reporter: this.#reporter
                 })
 
-                this.#dynamodb!.on('error', error => {
-                    clearInterval(interval)
-                    if (this.#verbose) process.stdout.write('\n')
-                    reject(new DynamoDBLocalError(error.name, error.message, this.#verbose))
-                })
+                Object.assign(result, await verifyInstallation(result.path, {hashes: true}), {repaired: true})
+            }
+        }
+
+        return results
+    }
+
+    /**
+     * Resolves the installation directory of `version`, installing it first when allowed by `install` or the reporter.
+     */
+    async #ensureInstalled({install, version, config}: StartOptions) {
+        const path = await this.#installation(version)
+        const installed  = await DynamoDBLocalBuilder.#find(path)
+        if (!installed) {
+            if (install === undefined) this.#reporter.warning('DynamoDB not found at ' + styles.underline(path))
+            if (!(install ?? await this.#reporter.confirm('Do you want to download and install now?'))) {
+                throw new DynamoDBLocalError('NOT_INSTALLED', 'DynamoDB not found at ' + styles.underline(path), {path, version})
+            }
+
+            await this.install({version, config})
+        }
+
+        return path
+    }
+
+    /**
+     * Creates the backend of `args.runtime` and checks that it can run DynamoDB, installing DynamoDB first for `java`.
+     */
+    async #runtime(args: StartOptions) {
+        const {runtime = 'java'} = args
+        let backend: RuntimeBackend
+        if (runtime === 'docker') backend = new DockerBackend(args)
+        else if (runtime === 'java') backend = new JavaBackend(await this.#ensureInstalled(args), args.javaPath)
+        else throw new DynamoDBLocalError(
+            'INVALID_OPTION',
+            `Unknown runtime ${runtime}, expected one of ${runtimes.join(', ')}`,
+            {option: 'runtime'}
+        )
+
+        return {backend, info: await backend.prepare(this.#reporter)}
+    }
+
+    /**
+     * Spawns DynamoDB with `command` and resolves with the child process once it answers on `endpoint`.
+     */
+    async #startProcess(
+        {command, args: $args}: RuntimeCommand,
+        endpoint: string,
+        args: ReadinessOptions,
+        onOutput: (stream: OutputStream, line: string) => void,
+        detachedLog?: string
+    ) {
+        const controller = new AbortController()
+        const abort = () => controller.abort()
+        const stderr: string[] = []
+        let exit: ExitStatus | undefined
+        let spawnError: Error | undefined
+        let starting = true
+        let dynamodb: ChildProcess
+        let logOffset = 0
+
+        if (detachedLog) {
+            // the process outlives us, so its output goes straight to the log file instead of through pipes
+            const file = await open(detachedLog, 'a')
+            try {
+                logOffset = (await file.stat()).size
+                dynamodb = spawn(command, $args, {detached: true, stdio: ['ignore', file.fd, file.fd]})
+            }
+
+            finally {
+                await file.close()
+            }
+        }
+
+        else {
+            dynamodb = spawn(command, $args)
+            createInterface({input: dynamodb.stdout!}).on('line', line => onOutput('stdout', line))
+            createInterface({input: dynamodb.stderr!}).on('line', line => {
+                if (starting) stderr.push(line)
+                onOutput('stderr', line)
             })
         }
 
-        const {pid} = this.#dynamodb
+        dynamodb.on('error', error => {
+            spawnError = error
+            abort()
+        })
+
+        dynamodb.on('exit', (code, signal) => {
+            exit = {code, signal}
+            abort()
+        })
+
+        args.signal?.addEventListener('abort', abort)
+
+        try {
+            if (await waitForDynamoDB(endpoint, {...args, signal: controller.signal})) {
+                starting = false
+                if (detachedLog) dynamodb.unref()
+                return dynamodb
+            }
+        }
+
+        finally {
+            args.signal?.removeEventListener('abort', abort)
+        }
+
+        // the last lines of output may still be in the pipes when the process exits
+        if (exit || spawnError) await Promise.race([once(dynamodb, 'close'), setTimeout(500)])
+        const output = detachedLog
+            ? (await readFile(detachedLog).catch(() => Buffer.alloc(0))).subarray(logOffset).toString().trim()
+            : stderr.join('\n').trim()
+        const details = output ? `\n${output}` : ''
+
+        if (spawnError) {
+            throw new DynamoDBLocalError('STARTUP_FAILED', spawnError.message + details, {output}, {cause: spawnError})
+        }
+
+        if (exit && /BindException|address already in use|port is already allocated/i.test(output)) {
+            const port = +new URL(endpoint).port
+            throw new DynamoDBLocalError('PORT_IN_USE', `Port ${port} is already in use` + details, {port})
+        }
+
+        if (exit) throw new DynamoDBLocalError(
+            'STARTUP_FAILED',
+            `DynamoDB exited before becoming ready with ${exit.signal ? 'signal ' + exit.signal : 'code ' + exit.code}` + details,
+            {...exit, output}
+        )
+
+        await terminate(dynamodb)
+
+        if (args.signal?.aborted) {
+            throw new DynamoDBLocalError('STARTUP_ABORTED', 'DynamoDB startup was aborted' + details, {output})
+        }
+
+        const timeout = args.startTimeout ?? 30000
         throw new DynamoDBLocalError(
-            'error',
-            `DynamoDB process is already running with pid: ${styles.underline(String(pid))}`,
-            this.#verbose
+            'STARTUP_TIMEOUT',
+            `DynamoDB did not answer on ${endpoint} within ${timeout}ms` + details,
+            {endpoint, timeout, output}
+        )
+    }
+
+    /**
+     * Loads the schema and fixtures files before anything is spawned, so that mistakes in them fail fast.
+     */
+    async #loadSeed(args: SeedOptions) {
+        const seedOptions: {tables?: TableDefinition[], fixtures?: Fixtures} = {}
+        if (args.tables) seedOptions.tables = await loadTables(args.tables)
+        if (args.fixtures) seedOptions.fixtures = await loadFixtures(args.fixtures)
+        return seedOptions
+    }
+
+    /**
+     * Applies the loaded schema and fixtures, stopping the instance when that fails.
+     */
+    async #seed(instance: {endpoint: string, stop(): Promise<unknown>}, seedOptions: SeedOptions) {
+        if (!seedOptions.tables && !seedOptions.fixtures) return
+
+        try {
+            const {created, items} = await seed(instance.endpoint, seedOptions)
+            this.#reporter.info(`Seeded ${created.length} table(s) and ${items} item(s)`)
+        }
+
+        catch (error: any) {
+            await instance.stop()
+            throw new DynamoDBLocalError('SEED_FAILED', error.message, {}, {cause: error})
+        }
+    }
+
+    /**
+     * Serves the web UI of `instance`, stopping the instance when the UI cannot listen.
+     */
+    async #serveUI(instance: DynamoDBLocalInstance, {uiPort}: AdminUIOptions) {
+        try {
+            const port = uiPort === 'auto' ? 0 : uiPort ?? await getNextFreePort(instance.port)
+            if (!Number.isInteger(port)) {
+                throw new DynamoDBLocalError('INVALID_OPTION', 'uiPort must be an Integer or \'auto\'', {option: 'uiPort'})
+            }
+
+            // the page must not run into the injected faults
+            instance.ui = await AdminUI.start(instance.proxy?.target ?? instance.endpoint, port)
+        }
+
+        catch (error) {
+            await instance.stop()
+            throw error
+        }
+
+        instance.exited.then(() => instance.ui?.close())
+    }
+
+    /**
+     * Puts the proxy in front of `instance`, on its port, stopping the instance when the proxy cannot start.
+     */
+    async #serveProxy(instance: DynamoDBLocalInstance, target: string, options: ProxyOptions) {
+        try {
+            instance.proxy = await FaultProxy.start(target, instance.port, options)
+        }
+
+        catch (error) {
+            await instance.stop()
+            throw error
+        }
+
+        instance.exited.then(() => instance.proxy?.close())
+    }
+
+    /**
+     * Applies the schema and fixtures files to `instance` again whenever they or the `watch` files change.
+     */
+    async #watch(instance: DynamoDBLocalInstance, endpoint: string, args: SeedOptions & WatchOptions, {tables = [], fixtures = {}}: {tables?: TableDefinition[], fixtures?: Fixtures}) {
+        try {
+            const watcher = await watchSeed(endpoint, watchedFiles(args), args, {tables, fixtures}, this.#reporter)
+            instance.exited.then(watcher.close)
+        }
+
+        catch (error) {
+            await instance.stop()
+            throw error
+        }
+    }
+
+    async #spawn(
+        args: DynamoDBOptions & AdminUIOptions & ProxyOptions & WatchOptions & ReadinessOptions & OutputOptions,
+        backend: RuntimeBackend,
+        defaultDbPath: (port: number) => string
+    ) {
+        if (args.watch && typeof args.tables !== 'string' && typeof args.fixtures !== 'string') throw new DynamoDBLocalError(
+            'INVALID_OPTION',
+            `Option ${styles.underline('watch')} needs option ${styles.underline('tables')} or ${styles.underline('fixtures')} to be a file`,
+            {option: 'watch'}
+        )
+
+        const seedOptions = await this.#loadSeed(args)
+        const faults = args.faults?.map(parseFault)
+        const options = await this.#launchOptions(args, defaultDbPath)
+        // behind the proxy, DynamoDB listens on a port of its own and the proxy takes the one asked for
+        const proxied = !!(args.trace || args.faults)
+        const runtimeOptions = proxied ? {...options, port: await getFreePort()} : options
+        const command = backend.command(runtimeOptions)
+        const endpoint = `http://localhost:${runtimeOptions.port}`
+
+        let logFile: LogFile | undefined
+        try {
+            if (args.logFile) logFile = new LogFile(args.logFile)
+        }
+
+        catch (error: any) {
+            const path = path_resolve(typeof args.logFile === 'string' ? args.logFile : args.logFile!.path)
+            throw new DynamoDBLocalError('FILE_ERROR', `Unable to open the log file: ${error.message}`, {path}, {cause: error})
+        }
+
+        let instance: DynamoDBLocalInstance | undefined
+        const onOutput = (stream: OutputStream, line: string) => {
+            if (args.logs) this.#reporter.output(stream, line)
+            instance?.emit(stream, line)
+            try {
+                logFile?.write(stream, line)
+            }
+
+            catch (error: any) {
+                if (instance?.listenerCount('error')) instance.emit('error', error)
+            }
+        }
+
+        // the progress would be interleaved with the output
+        const progress = !args.logs
+        if (progress) this.#reporter.progress({task: 'startup', message: 'Initializing DynamoDB'})
+        let dynamodb
+
+        try {
+            dynamodb = await this.#startProcess(command, endpoint, args, onOutput)
+        }
+
+        catch (error) {
+            logFile?.close()
+            throw error
+        }
+
+        finally {
+            if (progress) this.#reporter.progress({task: 'startup', message: 'Initializing DynamoDB', done: true})
+        }
+
+        const {startTimeout, retryInterval} = args
+        instance = new DynamoDBLocalInstance(dynamodb, options, {
+            respawn: () => this.#startProcess(command, endpoint, {startTimeout, retryInterval}, onOutput),
+            snapshotsPath: snapshotsDirectory(this.#path),
+            cleanup: () => backend.cleanup(runtimeOptions)
+        })
+
+        this.#instances.add(instance)
+        instance.exited.then(() => {
+            logFile?.close()
+            this.#instances.delete(instance!)
+            if (this.#dynamodb === instance) this.#dynamodb = undefined
+            this.#reporter.fail('dynamodb terminated')
+        })
+
+        if (proxied) await this.#serveProxy(instance, endpoint, {trace: args.trace, faults})
+        await this.#seed({endpoint, stop: () => instance!.stop()}, seedOptions)
+        if (args.ui) await this.#serveUI(instance, args)
+        if (args.watch) await this.#watch(instance, endpoint, args, seedOptions)
+        return instance
+    }
+
+    /**
+     * Starts DynamoDB in the background, detached from the Node.js process, and records it in the state file.
+     */
+    async #detach(args: StartOptions, {backend, info}: {backend: RuntimeBackend, info: RuntimeInfo}) {
+        const seedOptions = await this.#loadSeed(args)
+        const options = await this.#launchOptions(args, () => join(this.#path, 'DynamoDBLocal_db'))
+        const endpoint = `http://localhost:${options.port}`
+        const logFile = path_resolve(
+            typeof args.logFile === 'string' ? args.logFile : args.logFile?.path ?? join(this.#path, 'DynamoDBLocal.log')
         )
+
+        try {
+            await mkdir(dirname(logFile), {recursive: true})
+        }
+
+        catch (error: any) {
+            throw new DynamoDBLocalError('FILE_ERROR', `Unable to open the log file: ${error.message}`, {path: logFile}, {cause: error})
+        }
+
+        const dynamodb = await this.#startProcess(backend.command(options), endpoint, args, () => {}, logFile)
+        const state: DaemonState = {
+            pid: dynamodb.pid!,
+            startTime: startTimeOf(dynamodb.pid!),
+            port: options.port,
+            endpoint,
+            dbPath: options.dbPath,
+            version: info.version,
+            logFile,
+            startedAt: new Date().toISOString()
+        }
+
+        const instance = new DetachedInstance(this.#path, state)
+        try {
+            await writeState(this.#path, state)
+        }
+
+        catch (error: any) {
+            await instance.stop()
+            throw new DynamoDBLocalError('FILE_ERROR', `Unable to write the state file: ${error.message}`, {path: join(this.#path, stateFile)}, {cause: error})
+        }
+
+        await this.#seed(instance, seedOptions)
+        return instance
     }
 
-    @bound public stop() {
-        const killed = this.#dynamodb?.kill()
+    /**
+     * Resolves with the state of the DynamoDB process started in the background from this install path,
+     * or `undefined` when there is none. A state file left behind by a process that died is cleaned up.
+     */
+    @bound public async status(): Promise<DaemonStatus | undefined> {
+        const state = await readState(this.#path)
+        return state && {...state, ready: await isReady(state.endpoint)}
+    }
 
-        if (killed) {
-            this.#dynamodb = undefined
-            return this.#verbose ? log.info('DynamoDB process terminated') : undefined
+    /**
+     * Returns a handle to the DynamoDB process started in the background from this install path.
+     */
+    @bound public async attach() {
+        const state = await readState(this.#path)
+        if (!state) throw new DynamoDBLocalError(
+            'NOT_RUNNING',
+            'No DynamoDB process is running in the background from ' + styles.underline(this.#path),
+            {path: this.#path}
+        )
+
+        return new DetachedInstance(this.#path, state)
+    }
+
+    /**
+     * Resolves with the instance already answering on the port of `args`, if any.
+     */
+    async #findExisting({port = 8000}: StartOptions) {
+        if (port === 'auto' || port === 0) return
+        if (this.#dynamodb?.running && this.#dynamodb.port === port) return this.#dynamodb
+        const daemon = await readState(this.#path)
+        if (daemon?.port === port) return new DetachedInstance(this.#path, daemon)
+        if (await isPortFree(port) || !await isReady(`http://localhost:${port}`)) return
+        return new ExistingInstance(port, await findPortOwner(port))
+    }
+
+    public start(args: StartOptions & {detach: true, reuseExisting?: false}): Promise<DetachedInstance>
+    public start(args?: StartOptions & {detach?: false, reuseExisting?: false}): Promise<DynamoDBLocalInstance>
+    public start(args?: StartOptions & DetachOptions): Promise<DynamoDBLocalInstance | DetachedInstance | ExistingInstance>
+    @bound public async start(options: StartOptions & DetachOptions = {}) {
+        const args = await withConfig(options, startConfig)
+        const existing = args.reuseExisting ? await this.#findExisting(args) : undefined
+        if (existing) {
+            // a failed seed must not stop an instance that was not started here
+            await this.#seed({endpoint: existing.endpoint, stop: async () => {}}, await this.#loadSeed(args))
+            this.#reporter.success('dynamodb already running, reusing it')
+            if (existing.pid !== undefined) this.#reporter.detail('pid', existing.pid)
+            this.#reporter.detail('endpoint', existing.endpoint)
+            return existing
+        }
+
+        if (this.#dynamodb) throw new DynamoDBLocalError(
+            'ALREADY_RUNNING',
+            `DynamoDB process is already running with pid: ${styles.underline(String(this.#dynamodb.pid))}`,
+            {pid: this.#dynamodb.pid}
+        )
+
+        const daemon = await readState(this.#path)
+        if (daemon) throw new DynamoDBLocalError(
+            'ALREADY_RUNNING',
+            `DynamoDB is already running in the background with pid: ${styles.underline(String(daemon.pid))}`,
+            {pid: daemon.pid}
+        )
+
+        // the web UI, the proxy and the watcher run in this process, which a detached DynamoDB outlives
+        const served = (['ui', 'trace', 'faults', 'watch'] as const).find(option => args[option])
+        if (args.detach && served) throw new DynamoDBLocalError(
+            'INVALID_OPTION',
+            `Option ${styles.underline(served)} cannot be used with option ${styles.underline('detach')}`,
+            {option: served}
+        )
+
+        const runtime = await this.#runtime(args)
+        const instance = args.detach
+            ? await this.#detach(args, runtime)
+            : this.#dynamodb = await this.#spawn(args, runtime.backend, () => join(this.#path, 'DynamoDBLocal_db'))
+
+        const reporter = this.#reporter
+        reporter.success(args.detach ? 'dynamodb started in the background' : 'dynamodb started')
+        reporter.detail('pid', instance.pid!)
+        reporter.detail('version', runtime.info.version ?? '-')
+        reporter.detail(runtime.backend.name, runtime.info.runtime)
+        reporter.detail('port', instance.port)
+        reporter.detail('inMemory', !!args.inMemory)
+        reporter.detail('dbPath', instance.dbPath ?? '-')
+        reporter.detail('sharedDB', !!args.sharedDB)
+        reporter.detail('delayTransientStatuses', !!args.delayTransientStatuses)
+        reporter.detail('cors', '[' + (args.cors?.join(', ') ?? '*') + ']')
+        if (instance instanceof DynamoDBLocalInstance && instance.ui) reporter.detail('ui', instance.ui.url)
+        if (instance instanceof DynamoDBLocalInstance && instance.proxy) {
+            reporter.detail('proxy', `${instance.proxy.endpoint} -> ${instance.proxy.target}`)
+            reporter.detail('faults', instance.proxy.faults.length)
+            if (args.trace) reporter.detail('trace', path_resolve(args.trace))
+        }
+
+        if (instance instanceof DynamoDBLocalInstance && args.watch) reporter.detail('watch', watchedFiles(args).join(', '))
+        if (instance instanceof DetachedInstance) {
+            reporter.detail('logFile', instance.logFile)
+            reporter.message(`run ${styles.bold('dynamodb-local stop')} to terminate`)
         }
 
-        return Promise.reject(new DynamoDBLocalError(
-            'error',
+        else reporter.message(`press ${styles.bold('CTRL + C')} to terminate`)
+
+        return instance
+    }
+
+    /**
+     * Starts an additional DynamoDB process from the same installation, independent from the one managed by
+     * `start()` and `stop()`. Unless `dbPath` or `inMemory` is set, each launched instance writes its database
+     * to its own `DynamoDBLocal_db/{port}` directory so that concurrent instances do not share files.
+     */
+    @bound public async launch(options: StartOptions = {}) {
+        // the configured port is meant for start(), launched instances take a free one unless told otherwise
+        const args = await withConfig<StartOptions>({port: 'auto', ...options}, startConfig)
+        const {backend} = await this.#runtime(args)
+
+        return this.#spawn(args, backend, port => join(this.#path, 'DynamoDBLocal_db', String(port)))
+    }
+
+    /**
+     * Stops the instance started by `start()` or, when there is none, the one started in the background
+     * from this install path.
+     */
+    @bound public async stop(options?: StopOptions) {
+        const instance = this.#dynamodb?.running ? this.#dynamodb : await readState(this.#path).then(state => {
+            return state && new DetachedInstance(this.#path, state)
+        })
+
+        if (!instance) throw new DynamoDBLocalError(
+            'NOT_RUNNING',
             'Requested DynamoDB process not killed because it was not running',
-            this.#verbose
-        ))
+            {path: this.#path}
+        )
+
+        this.#dynamodb = undefined
+        const status = await instance.stop(options)
+        this.#reporter.info(
+            'DynamoDB process terminated ' + (status.signal ? `by signal ${status.signal}` : `with code ${status.code}`)
+        )
+
+        return status
     }
 }
 
 export class DynamoDBLocalCLI extends DynamoDBLocalBuilder {
     static readonly #default = new this(defaultPath)
-    public static install() {return this.#default.install()}
-    public static uninstall() {return this.#default.uninstall()}
-    public static start(args?: DynamoDBOptions) {return this.#default.start(args)}
-    public static stop() {return this.#default.stop()}
-    constructor(path: string) {
-        super(path, {verbose: true})
+    public static install(options?: InstallOptions) {return this.#default.install(options)}
+    public static uninstall(options?: {version?: string}) {return this.#default.uninstall(options)}
+    public static versions() {return this.#default.versions()}
+    public static verify(options?: VerifyOptions) {return this.#default.verify(options)}
+    public static start(args: StartOptions & {detach: true, reuseExisting?: false}): Promise<DetachedInstance>
+    public static start(args?: StartOptions & {detach?: false, reuseExisting?: false}): Promise<DynamoDBLocalInstance>
+    public static start(args?: StartOptions & DetachOptions): Promise<DynamoDBLocalInstance | DetachedInstance | ExistingInstance>
+    public static start(args?: StartOptions & DetachOptions) {return this.#default.start(args)}
+    public static status() {return this.#default.status()}
+    public static attach() {return this.#default.attach()}
+    public static stop(options?: StopOptions) {return this.#default.stop(options)}
+    constructor(path: string, options: BuilderOptions = {reporter: createReporter()}) {
+        super(path, options)
     }
 }
 
 export class DynamoDBLocal extends DynamoDBLocalBuilder {
     static readonly #default = new this(defaultPath)
-    public static install() {return this.#default.install()}
-    public static uninstall() {return this.#default.uninstall()}
-    public static start(args?: DynamoDBOptions & {install?: boolean}) {return this.#default.start(args)}
-    public static stop() {return this.#default.stop()}
-    constructor(path: string) {
-        super(path, {verbose: false})
+    public static install(options?: InstallOptions) {return this.#default.install(options)}
+    public static uninstall(options?: {version?: string}) {return this.#default.uninstall(options)}
+    public static versions() {return this.#default.versions()}
+    public static verify(options?: VerifyOptions) {return this.#default.verify(options)}
+    public static start(args: StartOptions & {detach: true, reuseExisting?: false}): Promise<DetachedInstance>
+    public static start(args?: StartOptions & {detach?: false, reuseExisting?: false}): Promise<DynamoDBLocalInstance>
+    public static start(args?: StartOptions & DetachOptions): Promise<DynamoDBLocalInstance | DetachedInstance | ExistingInstance>
+    public static start(args?: StartOptions & DetachOptions) {return this.#default.start(args)}
+    public static status() {return this.#default.status()}
+    public static attach() {return this.#default.attach()}
+    public static launch(args?: StartOptions) {return this.#default.launch(args)}
+    public static stop(options?: StopOptions) {return this.#default.stop(options)}
+    constructor(path: string, options?: BuilderOptions) {
+        super(path, options)
     }
 }
 
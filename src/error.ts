@@ -1,16 +1,134 @@
-import {msg, log} from './shell'
+import {msg} from './shell'
 import {inspect} from 'node:util'
 
-export class DynamoDBLocalError extends Error {
-    constructor(name: string, message: string, verbose?: boolean) {
-        super()
-        this.name = name
-        this.message = message
-        if (verbose) {
-            log.error(name, message)
-        }
+/**
+ * What went wrong, see {@link DynamoDBLocalError.code}.
+ */
+export const ErrorCode = {
+    /**
+     * DynamoDB, or the requested version of it, is not installed at the install path.
+     */
+    NOT_INSTALLED: 'NOT_INSTALLED',
+    /**
+     * A DynamoDB process is already running from the install path, in the foreground or in the background.
+     */
+    ALREADY_RUNNING: 'ALREADY_RUNNING',
+    /**
+     * There is no DynamoDB process to stop, attach to or talk to.
+     */
+    NOT_RUNNING: 'NOT_RUNNING',
+    /**
+     * The instance is already restarting or stopping.
+     */
+    BUSY: 'BUSY',
+    JAVA_NOT_FOUND: 'JAVA_NOT_FOUND',
+    /**
+     * The Java runtime is older than 8, or its version could not be determined.
+     */
+    JAVA_UNSUPPORTED: 'JAVA_UNSUPPORTED',
+    /**
+     * The docker executable is missing, its daemon does not answer, or the image could not be pulled.
+     */
+    DOCKER_UNAVAILABLE: 'DOCKER_UNAVAILABLE',
+    PORT_IN_USE: 'PORT_IN_USE',
+    DOWNLOAD_FAILED: 'DOWNLOAD_FAILED',
+    CHECKSUM_MISMATCH: 'CHECKSUM_MISMATCH',
+    /**
+     * An option of the Javascript API, of a configuration file or of an environment variable is invalid.
+     */
+    INVALID_OPTION: 'INVALID_OPTION',
+    /**
+     * The command line is invalid.
+     */
+    INVALID_ARGUMENT: 'INVALID_ARGUMENT',
+    /**
+     * A file could not be read, parsed or written.
+     */
+    FILE_ERROR: 'FILE_ERROR',
+    /**
+     * The DynamoDB process could not be spawned, or exited before answering requests.
+     */
+    STARTUP_FAILED: 'STARTUP_FAILED',
+    STARTUP_ABORTED: 'STARTUP_ABORTED',
+    STARTUP_TIMEOUT: 'STARTUP_TIMEOUT',
+    SEED_FAILED: 'SEED_FAILED',
+    SNAPSHOT_FAILED: 'SNAPSHOT_FAILED',
+    UNINSTALL_FAILED: 'UNINSTALL_FAILED',
+    /**
+     * A request to DynamoDB failed, either on the network or with an error returned by DynamoDB.
+     */
+    REQUEST_FAILED: 'REQUEST_FAILED'
+} as const
+
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode]
+
+/**
+ * The structured details carried by the errors of each {@link ErrorCode}.
+ */
+export interface ErrorDetails {
+    NOT_INSTALLED: {path: string, version?: string}
+    ALREADY_RUNNING: {pid?: number}
+    NOT_RUNNING: {path?: string}
+    BUSY: {}
+    JAVA_NOT_FOUND: {path?: string}
+    JAVA_UNSUPPORTED: {path: string, version?: string}
+    DOCKER_UNAVAILABLE: {path: string, image?: string}
+    /**
+     * `pid` and `command` describe the process listening on the port, when it could be determined.
+     */
+    PORT_IN_USE: {port: number, pid?: number, command?: string}
+    DOWNLOAD_FAILED: {url?: string, status?: number}
+    CHECKSUM_MISMATCH: {url?: string, expected?: string, actual?: string}
+    INVALID_OPTION: {option?: string, source?: string}
+    INVALID_ARGUMENT: {argument?: string}
+    FILE_ERROR: {path: string}
+    /**
+     * `output` holds what the process wrote to stderr, or to its log file when detached, before exiting.
+     */
+    STARTUP_FAILED: {code?: number | null, signal?: NodeJS.Signals | null, output: string}
+    STARTUP_ABORTED: {output: string}
+    STARTUP_TIMEOUT: {endpoint: string, timeout: number, output: string}
+    SEED_FAILED: {table?: string, timeout?: number}
+    SNAPSHOT_FAILED: {name?: string}
+    UNINSTALL_FAILED: {files: string[]}
+    /**
+     * `type` is the exception returned by DynamoDB, e.g. `ResourceNotFoundException`, and `status` its HTTP status.
+     */
+    REQUEST_FAILED: {operation: string, type?: string, status?: number}
+}
+
+interface ErrorOptions {
+    /**
+     * The error this one was caused by.
+     */
+    cause?: unknown
+}
+
+type DetailsArguments<C extends ErrorCode> = {} extends ErrorDetails[C]
+    ? [details?: ErrorDetails[C], options?: ErrorOptions]
+    : [details: ErrorDetails[C], options?: ErrorOptions]
+
+export class DynamoDBLocalError<C extends ErrorCode = ErrorCode> extends Error {
+    readonly code: C
+    readonly details: ErrorDetails[C]
+    readonly cause?: unknown
+
+    constructor(code: C, message: string, ...[details, options]: DetailsArguments<C>) {
+        super(message)
+        this.name = 'DynamoDBLocalError'
+        this.code = code
+        this.details = details ?? {} as ErrorDetails[C]
+        if (options && 'cause' in options) this.cause = options.cause
+    }
+
+    /**
+     * Narrows `error` to the errors of `code`, e.g. `if (DynamoDBLocalError.is(error, 'PORT_IN_USE')) error.details.port`.
+     */
+    static is<C extends ErrorCode>(error: unknown, code: C): error is DynamoDBLocalError<C> {
+        return error instanceof DynamoDBLocalError && error.code === code
     }
+
     [inspect.custom]() {
-        return msg.error(this.name, this.stack || this.message)
+        return msg.error(this.code, this.stack || this.message)
     }
-}
\ No newline at end of file
+}
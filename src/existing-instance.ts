@@ -0,0 +1,37 @@
+import {isAlive, type ExitStatus} from './kill-tree'
+import type {PortOwner} from './free-port'
+
+/**
+ * A handle to a DynamoDB that already answered on the requested port, as returned by `start({reuseExisting: true})`.
+ * It was not started from this install path, so `stop()` leaves it running.
+ */
+export class ExistingInstance {
+    /**
+     * The process listening on the port, when it could be determined.
+     */
+    readonly pid?: number
+    readonly command?: string
+    readonly port: number
+    /**
+     * The URL at which the instance accepts DynamoDB requests.
+     */
+    readonly endpoint: string
+
+    constructor(port: number, owner?: PortOwner) {
+        this.pid = owner?.pid
+        this.command = owner?.command
+        this.port = port
+        this.endpoint = `http://localhost:${port}`
+    }
+
+    get running() {
+        return this.pid === undefined || isAlive(this.pid)
+    }
+
+    /**
+     * Does nothing, the instance belongs to whoever started it.
+     */
+    public async stop(): Promise<ExitStatus> {
+        return {code: null, signal: null}
+    }
+}
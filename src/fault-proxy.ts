@@ -0,0 +1,347 @@
+import {createServer, request, type ClientRequest, type IncomingMessage, type Server, type ServerResponse} from 'node:http'
+import {createWriteStream, type WriteStream} from 'node:fs'
+import {mkdir} from 'node:fs/promises'
+import {dirname, resolve} from 'node:path'
+import {once} from 'node:events'
+import {setTimeout} from 'node:timers/promises'
+import {DynamoDBLocalError} from './error'
+
+export const faultTypes = [
+    'ProvisionedThroughputExceededException', 'ThrottlingException', 'InternalServerError', 'ServiceUnavailable', 'latency', 'drop'
+] as const
+
+export type FaultType = typeof faultTypes[number]
+
+/**
+ * A failure injected by the proxy into the requests it matches.
+ */
+export interface Fault {
+    /**
+     * Answers with that DynamoDB error, with status 400 for the throttling errors and 500 or 503 for the others.
+     * `latency` delays the request before passing it on, `drop` closes the connection without answering.
+     */
+    type: FaultType
+    /**
+     * The operations affected, e.g. `['PutItem', 'BatchWriteItem']`. If you don't specify this option, every operation is.
+     */
+    operations?: string[]
+    /**
+     * The tables affected. If you don't specify this option, every table is.
+     */
+    tables?: string[]
+    /**
+     * The chance, between `0` and `1`, that a matching request fails. If you don't specify this option, the default is `1`.
+     */
+    probability?: number
+    /**
+     * The number of requests failed before the fault is spent. If you don't specify this option, there is no limit.
+     */
+    times?: number
+    /**
+     * The delay in milliseconds added by a `latency` fault. If you don't specify this option, the default is `1000`.
+     */
+    latency?: number
+}
+
+export interface ProxyOptions {
+    /**
+     * An NDJSON file every DynamoDB request is appended to, with its timing, status and injected fault.
+     */
+    trace?: string
+    /**
+     * The faults to inject, as objects or as specs like `ThrottlingException,operation=PutItem,table=users,times=2`.
+     * Setting `faults`, even empty, or `trace` puts a proxy in front of DynamoDB, see `instance.proxy`.
+     */
+    faults?: (Fault | string)[]
+}
+
+/**
+ * A line of the trace file.
+ */
+export interface TraceEntry {
+    time: string
+    operation?: string
+    tables: string[]
+    /**
+     * The status of the response, missing when the connection was dropped.
+     */
+    status?: number
+    /**
+     * The time in milliseconds between the request and the response.
+     */
+    duration: number
+    fault?: FaultType
+    /**
+     * The DynamoDB error the request failed with, e.g. `ConditionalCheckFailedException`.
+     */
+    error?: string
+}
+
+const errors = {
+    ProvisionedThroughputExceededException: [
+        400,
+        'com.amazonaws.dynamodb.v20120810#ProvisionedThroughputExceededException',
+        'The level of configured provisioned throughput for the table was exceeded. Consider increasing your provisioning level with the UpdateTable API.'
+    ],
+    ThrottlingException: [400, 'com.amazon.coral.availability#ThrottlingException', 'Rate of requests exceeds the allowed throughput.'],
+    InternalServerError: [500, 'com.amazonaws.dynamodb.v20120810#InternalServerError', 'Internal server error'],
+    ServiceUnavailable: [503, 'com.amazon.coral.availability#ServiceUnavailableException', 'Service unavailable']
+} as const
+
+function invalidFault(message: string): never {
+    throw new DynamoDBLocalError('INVALID_OPTION', message, {option: 'faults'})
+}
+
+/**
+ * Checks a fault given as an object, or parses one given as a spec like
+ * `ThrottlingException,operation=PutItem,operation=UpdateItem,table=users,probability=0.5,times=3`.
+ */
+export function parseFault(fault: Fault | string): Fault {
+    if (typeof fault === 'string') {
+        const [type, ...settings] = fault.split(',').map(part => part.trim())
+        const parsed: Fault = {type: type as FaultType}
+        for (const setting of settings) {
+            const [name, value = ''] = setting.split('=', 2)
+            switch (name) {
+                case 'operation': (parsed.operations ??= []).push(value); break
+                case 'table': (parsed.tables ??= []).push(value); break
+                case 'probability':
+                case 'times':
+                case 'latency':
+                    if (!/^\d*\.?\d+$/.test(value)) invalidFault(`The ${name} of fault ${fault} must be a number, got ${value}`)
+                    parsed[name] = +value
+                    break
+                default: invalidFault(`Unknown setting ${name} in fault ${fault}, expected operation, table, probability, times or latency`)
+            }
+        }
+
+        fault = parsed
+    }
+
+    const {type, operations, tables, probability, times, latency} = fault
+    const names = (value: unknown) => value === undefined || Array.isArray(value) && value.every(name => typeof name === 'string' && name)
+    if (!faultTypes.includes(type)) invalidFault(`Unknown fault ${type}, expected one of ${faultTypes.join(', ')}`)
+    if (!names(operations) || !names(tables)) invalidFault(`The operations and tables of fault ${type} must be arrays of names`)
+    if (probability !== undefined && !(probability >= 0 && probability <= 1)) invalidFault(`The probability of fault ${type} must be between 0 and 1`)
+    if (times !== undefined && !(Number.isInteger(times) && times >= 0)) invalidFault(`The times of fault ${type} must be a non-negative integer`)
+    if (latency !== undefined && !(Number.isInteger(latency) && latency >= 0)) invalidFault(`The latency of fault ${type} must be a non-negative integer`)
+    return {...fault}
+}
+
+/**
+ * The tables a request works on, as far as they can be told from its input.
+ */
+function tablesOf(input: any): string[] {
+    if (typeof input?.TableName === 'string') return [input.TableName]
+    if (typeof input?.RequestItems === 'object') return Object.keys(input.RequestItems)
+
+    const names = new Set<string>()
+    // transactions hold one {Put|Update|Delete|ConditionCheck|Get: {TableName}} per item
+    if (Array.isArray(input?.TransactItems)) {
+        for (const item of input.TransactItems) for (const action of Object.values<any>(item ?? {})) {
+            if (typeof action?.TableName === 'string') names.add(action.TableName)
+        }
+    }
+
+    const statements = [input?.Statement, ...Array.isArray(input?.Statements) ? input.Statements.map((s: any) => s?.Statement) : []]
+    for (const statement of statements) {
+        const name = typeof statement === 'string' && statement.match(/\b(?:from|into|update)\s+"?([\w.-]+)"?/i)?.[1]
+        if (name) names.add(name)
+    }
+
+    return [...names]
+}
+
+/**
+ * An HTTP proxy in front of a DynamoDB instance, which traces the requests it passes on and fails some of them,
+ * so that retries and backoff can be tested. Started by `start()` when `trace` or `faults` is set.
+ */
+export class FaultProxy {
+    readonly #server: Server
+    readonly #trace?: WriteStream
+    // the faults and the number of requests each can still fail
+    readonly #faults = new Map<Fault, number>()
+    readonly port: number
+    /**
+     * The URL at which the proxy accepts DynamoDB requests.
+     */
+    readonly endpoint: string
+    /**
+     * The DynamoDB endpoint behind the proxy, which answers without faults.
+     */
+    readonly target: string
+
+    private constructor(server: Server, port: number, target: string, trace?: WriteStream) {
+        this.#server = server
+        this.#trace = trace
+        this.port = port
+        this.endpoint = `http://localhost:${port}`
+        this.target = target
+    }
+
+    /**
+     * Passes the requests received on `port`, or a free port when `0`, on to `target`.
+     */
+    static async start(target: string, port = 0, {trace, faults = []}: ProxyOptions = {}) {
+        const parsed = faults.map(parseFault)
+        let stream: WriteStream | undefined
+        if (trace) {
+            const path = resolve(trace)
+            try {
+                await mkdir(dirname(path), {recursive: true})
+                stream = createWriteStream(path, {flags: 'a'})
+                await once(stream, 'open')
+            }
+
+            catch (error: any) {
+                throw new DynamoDBLocalError('FILE_ERROR', `Unable to open the trace file: ${error.message}`, {path}, {cause: error})
+            }
+        }
+
+        let proxy: FaultProxy | undefined
+        const server = createServer((req, res) => proxy!.#handle(req, res))
+        server.listen(port)
+
+        try {
+            await once(server, 'listening')
+        }
+
+        catch (error: any) {
+            stream?.end()
+            if (error.code === 'EADDRINUSE') throw new DynamoDBLocalError('PORT_IN_USE', `Port ${port} of the proxy is already in use`, {port})
+            throw error
+        }
+
+        const address = server.address()
+        proxy = new FaultProxy(server, typeof address === 'object' && address ? address.port : port, target, stream)
+        parsed.forEach(fault => proxy!.inject(fault))
+        return proxy
+    }
+
+    /**
+     * The faults that are not spent yet.
+     */
+    get faults() {
+        return [...this.#faults.keys()]
+    }
+
+    /**
+     * Starts failing the requests matched by `fault`, after the faults injected before it. Returns the fault
+     * to pass to `remove()`.
+     */
+    public inject(fault: Fault | string) {
+        const parsed = parseFault(fault)
+        this.#faults.set(parsed, parsed.times ?? Infinity)
+        return parsed
+    }
+
+    public remove(fault: Fault) {
+        return this.#faults.delete(fault)
+    }
+
+    /**
+     * Removes every fault, so that requests are passed on untouched.
+     */
+    public clear() {
+        this.#faults.clear()
+    }
+
+    #match(operation: string, tables: string[]) {
+        for (const [fault, remaining] of this.#faults) {
+            if (fault.operations && !fault.operations.includes(operation)) continue
+            if (fault.tables && !tables.some(table => fault.tables!.includes(table))) continue
+            if (Math.random() >= (fault.probability ?? 1)) continue
+            if (remaining > 1) this.#faults.set(fault, remaining - 1)
+            else this.#faults.delete(fault)
+            return fault
+        }
+    }
+
+    async #handle(req: IncomingMessage, res: ServerResponse) {
+        let forward: ClientRequest | undefined
+        // a client going away takes the request to DynamoDB with it
+        res.on('close', () => {
+            if (!res.writableFinished) forward?.destroy()
+        })
+
+        try {
+            const started = Date.now()
+            const chunks: Buffer[] = []
+            for await (const chunk of req) chunks.push(chunk)
+            const body = Buffer.concat(chunks)
+
+            const operation = String(req.headers['x-amz-target'] ?? '').split('.')[1]
+            let tables: string[] = []
+            try {tables = tablesOf(JSON.parse(body.toString()))} catch {}
+
+            const fault = operation ? this.#match(operation, tables) : undefined
+            const record = (status?: number, error?: string) => {
+                const entry: TraceEntry = {time: new Date(started).toISOString(), operation, tables, status, duration: Date.now() - started, fault: fault?.type, error}
+                if (this.#trace?.writable) this.#trace.write(JSON.stringify(entry) + '\n')
+            }
+
+            if (fault?.type === 'drop') {
+                req.socket.destroy()
+                return record()
+            }
+
+            if (fault?.type === 'latency') await setTimeout(fault.latency ?? 1000)
+
+            else if (fault) {
+                const [status, type, message] = errors[fault.type]
+                res.writeHead(status, {'Content-Type': 'application/x-amz-json-1.0'})
+                res.end(JSON.stringify({__type: type, message}))
+                return record(status, type.split('#').pop())
+            }
+
+            if (res.destroyed) return
+            const target = new URL(this.target)
+            forward = request({
+                method: req.method,
+                host: target.hostname,
+                port: target.port,
+                path: req.url,
+                headers: {...req.headers, host: target.host}
+            }, response => {
+                const chunks: Buffer[] = []
+                response.on('data', (chunk: Buffer) => chunks.push(chunk))
+                response.on('error', () => res.destroy())
+                response.on('end', () => {
+                    const body = Buffer.concat(chunks)
+                    let error: string | undefined
+                    if (response.statusCode! >= 400) {
+                        try {error = String(JSON.parse(body.toString()).__type).split('#').pop()} catch {}
+                    }
+
+                    res.writeHead(response.statusCode!, response.headers)
+                    res.end(body)
+                    record(response.statusCode, error)
+                })
+            })
+
+            forward.on('error', error => {
+                if (res.headersSent || res.destroyed) return res.destroy()
+                res.writeHead(502, {'Content-Type': 'application/x-amz-json-1.0'})
+                res.end(JSON.stringify({__type: 'ProxyError', message: `DynamoDB did not answer: ${error.message}`}))
+                record(502, 'ProxyError')
+            })
+
+            forward.end(body)
+        }
+
+        // e.g. the client aborted the request while sending it
+        catch {
+            forward?.destroy()
+            res.destroy()
+        }
+    }
+
+    public async close() {
+        if (this.#server.listening) {
+            this.#server.closeAllConnections?.()
+            await new Promise(resolve => this.#server.close(resolve))
+        }
+
+        if (this.#trace && !this.#trace.writableEnded) await new Promise(resolve => this.#trace!.end(resolve))
+    }
+}
@@ -0,0 +1,87 @@
+import {execFile} from 'node:child_process'
+import {createServer} from 'node:net'
+
+/**
+ * Asks the operating system for a port that is currently free on the loopback interface.
+ */
+export function getFreePort() {
+    return new Promise<number>((resolve, reject) => {
+        const server = createServer()
+        server.unref()
+        server.on('error', reject)
+        server.listen(0, () => {
+            const address = server.address()
+            server.close(() => {
+                if (address && typeof address === 'object') resolve(address.port)
+                else reject(new Error('Unable to determine a free port'))
+            })
+        })
+    })
+}
+
+/**
+ * Whether `port` can be listened on, on every interface as DynamoDB does.
+ */
+export function isPortFree(port: number) {
+    return new Promise<boolean>((resolve, reject) => {
+        const server = createServer()
+        server.unref()
+        server.on('error', (error: NodeJS.ErrnoException) => {
+            if (error.code === 'EADDRINUSE' || error.code === 'EACCES') resolve(false)
+            else reject(error)
+        })
+
+        server.listen(port, () => server.close(() => resolve(true)))
+    })
+}
+
+/**
+ * Resolves with the first free port after `port`.
+ */
+export async function getNextFreePort(port: number) {
+    for (let next = port + 1; next <= 65535; next++) {
+        if (await isPortFree(next)) return next
+    }
+
+    return getFreePort()
+}
+
+export interface PortOwner {
+    pid: number
+    /**
+     * The name of the executable, when it could be determined.
+     */
+    command?: string
+}
+
+function run(file: string, args: string[]) {
+    return new Promise<string>(resolve => {
+        execFile(file, args, {timeout: 2000, windowsHide: true}, (error, stdout) => resolve(error ? '' : stdout))
+    })
+}
+
+/**
+ * Finds the process listening on `port` with `netstat` on Windows, elsewhere with `lsof` or, when it can't tell, `ss`.
+ * Resolves to `undefined` when none of them can tell, e.g. for processes of other users.
+ */
+export async function findPortOwner(port: number): Promise<PortOwner | undefined> {
+    if (process.platform === 'win32') {
+        const line = (await run('netstat', ['-ano', '-p', 'tcp'])).split(/\r?\n/)
+            .map(line => line.trim().split(/\s+/))
+            .find(([, local, , state]) => local?.endsWith(`:${port}`) && state === 'LISTENING')
+
+        const pid = Number(line?.[4])
+        if (!pid) return undefined
+        const [command] = (await run('tasklist', ['/FI', `PID eq ${pid}`, '/FO', 'CSV', '/NH'])).split(',')
+        return {pid, command: command?.replace(/"/g, '').trim() || undefined}
+    }
+
+    // one field per line, prefixed by p for the pid and c for the command
+    const lsof = await run('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-Fpc'])
+    const pid = Number(lsof.match(/^p(\d+)$/m)?.[1])
+    if (pid) return {pid, command: lsof.match(/^c(.+)$/m)?.[1]}
+
+    const ss = (await run('ss', ['-ltnpH', `sport = :${port}`])).match(/users:\(\("([^"]+)",pid=(\d+)/)
+    if (ss) return {pid: +ss[2], command: ss[1]}
+    return undefined
+}
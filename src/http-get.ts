@@ -0,0 +1,171 @@
+import {request as https_request} from 'node:https'
+import {request as http_request, type IncomingMessage, type RequestOptions} from 'node:http'
+import {connect as tls_connect} from 'node:tls'
+import {createReadStream} from 'node:fs'
+import {stat} from 'node:fs/promises'
+import {fileURLToPath} from 'node:url'
+import type {Readable} from 'node:stream'
+import {DynamoDBLocalError} from './error'
+
+export interface GetOptions {
+    /**
+     * Time in milliseconds without network activity after which the request fails.
+     */
+    timeout?: number
+    /**
+     * The proxy to send requests through. If you don't specify this option, `HTTPS_PROXY` or `HTTP_PROXY`
+     * are used according to the protocol, except for the hosts listed in `NO_PROXY`. Use `false` to connect directly.
+     */
+    proxy?: string | false
+}
+
+export interface Response {
+    body: Readable
+    length?: number
+    lastModified?: string
+}
+
+const maxRedirects = 5
+
+/**
+ * Tells whether `url` is excluded from proxying by the comma separated `NO_PROXY` list.
+ */
+function bypassProxy(url: URL) {
+    const noProxy = process.env.NO_PROXY ?? process.env.no_proxy ?? ''
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80')
+
+    return noProxy.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean).some(entry => {
+        if (entry === '*') return true
+        const [host, entryPort] = entry.split(':')
+        if (entryPort && entryPort !== port) return false
+        const domain = host.replace(/^\*?\./, '')
+        return url.hostname === domain || url.hostname.endsWith('.' + domain)
+    })
+}
+
+function proxyFor(url: URL, proxy?: string | false) {
+    if (proxy === false || bypassProxy(url)) return undefined
+    const value = proxy ?? (url.protocol === 'https:'
+        ? process.env.HTTPS_PROXY ?? process.env.https_proxy ?? process.env.HTTP_PROXY ?? process.env.http_proxy
+        : process.env.HTTP_PROXY ?? process.env.http_proxy)
+
+    return value ? new URL(value.includes('://') ? value : `http://${value}`) : undefined
+}
+
+function proxyAuthorization(proxy: URL) {
+    if (!proxy.username) return undefined
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`
+    return 'Basic ' + Buffer.from(credentials).toString('base64')
+}
+
+/**
+ * Sends a single GET request, tunneling through `proxy` with `CONNECT` for https URLs.
+ */
+function send(url: URL, {timeout, proxy: proxyOption}: GetOptions) {
+    return new Promise<IncomingMessage>((resolve, reject) => {
+        const proxy = proxyFor(url, proxyOption)
+        const options: RequestOptions = {
+            method: 'GET',
+            host: url.hostname,
+            port: url.port,
+            path: url.pathname + url.search,
+            timeout
+        }
+
+        const onRequest = (req: ReturnType<typeof http_request>) => {
+            req.on('timeout', () => req.destroy(new DynamoDBLocalError('DOWNLOAD_FAILED', `Request to ${url.href} timed out`, {url: url.href})))
+            req.on('error', reject)
+            req.end()
+        }
+
+        if (!proxy) {
+            return onRequest((url.protocol === 'http:' ? http_request : https_request)(options, resolve))
+        }
+
+        const authorization = proxyAuthorization(proxy)
+
+        if (url.protocol === 'http:') {
+            return onRequest(http_request({
+                ...options,
+                host: proxy.hostname,
+                port: proxy.port,
+                path: url.href,
+                headers: {Host: url.host, ...authorization && {'Proxy-Authorization': authorization}}
+            }, resolve))
+        }
+
+        const host = `${url.hostname}:${url.port || 443}`
+        const tunnel = http_request({
+            method: 'CONNECT',
+            host: proxy.hostname,
+            port: proxy.port,
+            path: host,
+            timeout,
+            headers: {Host: host, ...authorization && {'Proxy-Authorization': authorization}}
+        })
+
+        tunnel.on('connect', (res, socket) => {
+            if (res.statusCode !== 200) {
+                socket.destroy()
+                return reject(new DynamoDBLocalError(
+                    'DOWNLOAD_FAILED',
+                    `Proxy ${proxy.host} refused to connect to ${host} with status code ${res.statusCode}`,
+                    {url: url.href, status: res.statusCode}
+                ))
+            }
+
+            onRequest(https_request({
+                ...options,
+                createConnection: () => tls_connect({socket, servername: url.hostname})
+            }, resolve))
+        })
+
+        onRequest(tunnel)
+    })
+}
+
+/**
+ * Fetches `url`, following redirects. `file:` URLs are read from the local file system.
+ * Rejects with a `DOWNLOAD_FAILED` error whose `details.status` is set when the server answers with an error status,
+ * or with a `FILE_ERROR` when a `file:` URL does not exist.
+ */
+export async function get(url: URL, options: GetOptions = {}): Promise<Response> {
+    try {
+        if (url.protocol === 'file:') {
+            const path = fileURLToPath(url)
+            const {size, mtime} = await stat(path)
+            return {body: createReadStream(path), length: size, lastModified: mtime.toUTCString()}
+        }
+
+        for (let redirects = 0; ; redirects++) {
+            const res = await send(url, options)
+            const {statusCode = 0, headers} = res
+
+            if (statusCode === 200) {
+                const length = headers['content-length']
+                return {body: res, length: length ? +length : undefined, lastModified: headers['last-modified']}
+            }
+
+            res.resume()
+
+            if (statusCode >= 300 && statusCode < 400 && headers.location && redirects < maxRedirects) {
+                url = new URL(headers.location, url)
+                continue
+            }
+
+            throw new DynamoDBLocalError(
+                'DOWNLOAD_FAILED',
+                statusCode === 403 || statusCode === 404
+                    ? `${url.href} was not found`
+                    : `Download of ${url.href} failed with status code ${statusCode}`,
+                {url: url.href, status: statusCode}
+            )
+        }
+    }
+
+    catch (error: any) {
+        if (error instanceof DynamoDBLocalError) throw error
+        if (error.code === 'ENOENT') throw new DynamoDBLocalError('FILE_ERROR', error.message, {path: error.path}, {cause: error})
+        throw new DynamoDBLocalError('DOWNLOAD_FAILED', error.message, {url: url.href}, {cause: error})
+    }
+}
@@ -1,2 +1,30 @@
 export {DynamoDBLocal} from './dynamodb-local'
-export type {DynamoDBOptions} from './dynamodb-local'
\ No newline at end of file
+export {DynamoDBLocalError, ErrorCode, type ErrorDetails} from './error'
+export {seed} from './seed'
+export {exportTables, importTables} from './transfer'
+export {listCache, cleanCache} from './download-cache'
+export {loadConfig, configEnvironmentVariables} from './config'
+export {createReporter, TTYReporter, PlainReporter, JSONReporter, SilentReporter} from './reporter'
+export {setupDynamoDBLocal, teardownDynamoDBLocal, environmentVariables} from './test-environment'
+export type {DynamoDBLocalInstance, InstanceEvents, StopOptions} from './dynamodb-instance'
+export type {ExitStatus} from './kill-tree'
+export type {BuilderOptions, DetachOptions, DynamoDBOptions, InstallOptions, StartOptions, VerifyOptions} from './dynamodb-local'
+export type {DaemonState, DaemonStatus, DetachedInstance} from './daemon'
+export type {ExistingInstance} from './existing-instance'
+export type {PortOwner} from './free-port'
+export type {Config, ConfigOptions} from './config'
+export type {ProgressEvent, Reporter, ReporterFormat, ReporterOptions} from './reporter'
+export type {Manifest, ManifestFile, VerifyResult} from './manifest'
+export type {CacheEntry} from './download-cache'
+export type {JavaRuntime} from './java'
+export type {DockerRuntime} from './docker'
+export type {Runtime, RuntimeOptions} from './runtime'
+export type {AdminUI, AdminUIOptions} from './admin-ui'
+export type {Fault, FaultProxy, FaultType, ProxyOptions, TraceEntry} from './fault-proxy'
+export type {LogFileOptions, OutputOptions} from './log-file'
+export type {ReadinessOptions} from './wait-for-dynamodb'
+export type {AttributeValue, Fixtures, Item, SeedOptions, SeedResult, TableDefinition} from './seed'
+export type {TableDump} from './snapshot'
+export type {SeedChange, WatchOptions} from './watch'
+export type {ExportOptions, ImportOptions, TransferFormat, TransferResult} from './transfer'
+export type {TestEnvironmentOptions} from './test-environment'
\ No newline at end of file
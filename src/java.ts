@@ -0,0 +1,112 @@
+import {execFile} from 'node:child_process'
+import {access, constants, stat} from 'node:fs/promises'
+import {delimiter, join, resolve} from 'node:path'
+import {DynamoDBLocalError} from './error'
+
+export interface JavaRuntime {
+    /**
+     * The absolute path of the `java` executable.
+     */
+    path: string
+    /**
+     * The version reported by `java -version`, e.g. `1.8.0_392` or `17.0.2`.
+     */
+    version: string
+    /**
+     * The feature release, e.g. `8` or `17`.
+     */
+    major: number
+}
+
+/**
+ * The oldest Java release DynamoDB Local runs on.
+ */
+export const minimumJavaVersion = 8
+
+const executable = process.platform === 'win32' ? 'java.exe' : 'java'
+const runtimes = new Map<string, Promise<JavaRuntime>>()
+
+async function isExecutable(path: string) {
+    try {
+        await access(path, constants.X_OK)
+        return (await stat(path)).isFile()
+    }
+
+    catch {
+        return false
+    }
+}
+
+/**
+ * Finds the `java` executable: `javaPath` when given, otherwise `JAVA_HOME/bin/java`, otherwise the first one in `PATH`.
+ */
+async function locate(javaPath?: string) {
+    if (javaPath) {
+        const path = resolve(javaPath)
+        const candidates = [path, join(path, executable), join(path, 'bin', executable)]
+        for (const candidate of candidates) if (await isExecutable(candidate)) return candidate
+
+        throw new DynamoDBLocalError('JAVA_NOT_FOUND', `No java executable found at ${javaPath}`, {path: javaPath})
+    }
+
+    if (process.env.JAVA_HOME) {
+        const path = join(process.env.JAVA_HOME, 'bin', executable)
+        if (await isExecutable(path)) return path
+    }
+
+    for (const directory of (process.env.PATH ?? '').split(delimiter).filter(Boolean)) {
+        const path = join(directory, executable)
+        if (await isExecutable(path)) return path
+    }
+
+    throw new DynamoDBLocalError(
+        'JAVA_NOT_FOUND',
+        `Java was not found. DynamoDB requires a Java Runtime Environment ${minimumJavaVersion} or newer: ` +
+        'install one, add it to PATH or set JAVA_HOME or the javaPath option'
+    )
+}
+
+/**
+ * Extracts the version from the output of `java -version`, e.g. `openjdk version "17.0.2" 2022-01-18`.
+ */
+export function parseJavaVersion(output: string) {
+    const [, version] = output.match(/version "([^"]+)"/) ?? output.match(/^\S+ (\d+[\w.+-]*)/m) ?? []
+    if (!version) return undefined
+
+    const [first, second] = version.split(/[._+-]/).map(Number)
+    return {version, major: first === 1 ? second : first}
+}
+
+function run(path: string) {
+    return new Promise<string>((resolve, reject) => {
+        execFile(path, ['-version'], {timeout: 10000}, (error, stdout, stderr) => {
+            if (error) reject(new DynamoDBLocalError('JAVA_UNSUPPORTED', `Unable to run ${path} -version: ${error.message}`, {path}, {cause: error}))
+            else resolve(stderr + stdout)
+        })
+    })
+}
+
+/**
+ * Locates the Java runtime and checks that it is recent enough to run DynamoDB. Results are cached per executable.
+ */
+export async function findJava(javaPath?: string): Promise<JavaRuntime> {
+    const path = await locate(javaPath)
+    if (!runtimes.has(path)) {
+        runtimes.set(path, run(path).then(output => {
+            const parsed = parseJavaVersion(output)
+            if (!parsed) throw new DynamoDBLocalError('JAVA_UNSUPPORTED', `Unable to determine the version of ${path}:\n${output.trim()}`, {path})
+
+            if (!(parsed.major >= minimumJavaVersion)) throw new DynamoDBLocalError(
+                'JAVA_UNSUPPORTED',
+                `Java ${parsed.version} at ${path} is not supported, DynamoDB requires Java ${minimumJavaVersion} or newer`,
+                {path, version: parsed.version}
+            )
+
+            return {path, ...parsed}
+        }))
+
+        runtimes.get(path)!.catch(() => runtimes.delete(path))
+    }
+
+    return runtimes.get(path)!
+}
@@ -0,0 +1,16 @@
+import {setupDynamoDBLocal, type TestEnvironmentOptions} from './test-environment'
+
+/**
+ * Jest `globalSetup` module. Options are read from the `dynamodbLocal` key of the project `globals`:
+ * ```js
+ * // jest.config.js
+ * module.exports = {
+ *     globalSetup: '@asn.aeb/dynamodb-local/jest-global-setup',
+ *     globalTeardown: '@asn.aeb/dynamodb-local/jest-global-teardown',
+ *     globals: {dynamodbLocal: {sharedDB: true}}
+ * }
+ * ```
+ */
+export default async function globalSetup(globalConfig?: unknown, projectConfig?: {globals?: {dynamodbLocal?: TestEnvironmentOptions}}) {
+    await setupDynamoDBLocal(projectConfig?.globals?.dynamodbLocal)
+}
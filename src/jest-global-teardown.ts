@@ -0,0 +1,8 @@
+import {teardownDynamoDBLocal} from './test-environment'
+
+/**
+ * Jest `globalTeardown` module, stops the instance started by `@asn.aeb/dynamodb-local/jest-global-setup`.
+ */
+export default async function globalTeardown() {
+    await teardownDynamoDBLocal()
+}
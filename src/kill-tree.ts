@@ -0,0 +1,137 @@
+import {execFileSync, type ChildProcess} from 'node:child_process'
+
+/**
+ * Lists the pids of all the processes descending from `pid`, deepest first.
+ */
+function descendants(pid: number) {
+    let table: string
+    try {table = execFileSync('ps', ['-A', '-o', 'pid=,ppid='], {encoding: 'utf8'})}
+    catch {return []}
+
+    const children = new Map<number, number[]>()
+    for (const line of table.split('\n')) {
+        const [child, parent] = line.trim().split(/\s+/).map(Number)
+        if (Number.isInteger(child) && Number.isInteger(parent)) {
+            children.set(parent, [...children.get(parent) ?? [], child])
+        }
+    }
+
+    const result: number[] = []
+    const visit = (parent: number) => children.get(parent)?.forEach(child => {
+        visit(child)
+        result.push(child)
+    })
+
+    visit(pid)
+    return result
+}
+
+export function isAlive(pid: number) {
+    try {
+        process.kill(pid, 0)
+        return true
+    }
+
+    catch (error: any) {
+        return error.code === 'EPERM'
+    }
+}
+
+/**
+ * The start time of `pid` as reported by `ps`, which tells it apart from a later process reusing the same pid.
+ * `undefined` when it can't be known, e.g. on Windows.
+ */
+export function startTimeOf(pid: number) {
+    if (process.platform === 'win32') return undefined
+    try {
+        const time = execFileSync('ps', ['-o', 'lstart=', '-p', String(pid)], {encoding: 'utf8', env: {...process.env, LC_ALL: 'C'}})
+        return time.trim() || undefined
+    }
+
+    catch {
+        return undefined
+    }
+}
+
+/**
+ * Sends `signal` to `pid` and to every process descending from it, as well as to the `others` found earlier,
+ * which may have been orphaned since. Returns the pids that were signaled.
+ * DynamoDB may leave processes of its own behind, so signaling the java process alone is not enough.
+ */
+export function killTree(pid: number, signal: 'SIGTERM' | 'SIGKILL', others: number[] = []) {
+    if (process.platform === 'win32') {
+        try {execFileSync('taskkill', ['/pid', String(pid), '/T', ...signal === 'SIGKILL' ? ['/F'] : []], {stdio: 'ignore'})}
+        catch {}
+        return [pid]
+    }
+
+    const pids = [...new Set([...descendants(pid), pid, ...others])]
+    for (const target of pids) {
+        try {process.kill(target, signal)} catch {}
+    }
+
+    return pids
+}
+
+/**
+ * Resolves to `true` once none of `pids` is alive anymore, or to `false` when `timeout` passes first.
+ */
+export async function waitForPids(pids: number[], timeout: number) {
+    const deadline = Date.now() + timeout
+    while (pids.some(isAlive)) {
+        if (Date.now() >= deadline) return false
+        await new Promise(resolve => setTimeout(resolve, 50))
+    }
+
+    return true
+}
+
+export interface ExitStatus {
+    /**
+     * The exit code of the process, or `null` if it was terminated by a signal.
+     */
+    code: number | null
+    /**
+     * The signal that terminated the process, or `null` if it exited on its own.
+     */
+    signal: NodeJS.Signals | null
+}
+
+/**
+ * Resolves with the exit status of `child` once it has exited.
+ */
+export function exitOf(child: ChildProcess) {
+    return new Promise<ExitStatus>(resolve => {
+        if (child.exitCode !== null || child.signalCode !== null) {
+            resolve({code: child.exitCode, signal: child.signalCode})
+        }
+
+        else child.once('exit', (code, signal) => resolve({code, signal}))
+    })
+}
+
+/**
+ * Terminates `pid` and its whole process tree with `SIGTERM`, escalating to `SIGKILL` when they are
+ * still alive after `gracePeriod` milliseconds. Resolves with the last signal sent.
+ */
+export async function terminatePid(pid: number, gracePeriod = 5000) {
+    const pids = killTree(pid, 'SIGTERM')
+    if (await waitForPids(pids, gracePeriod)) return 'SIGTERM'
+
+    await waitForPids(killTree(pid, 'SIGKILL', pids), 1000)
+    return 'SIGKILL'
+}
+
+/**
+ * Terminates `child` and its whole process tree with {@link terminatePid}. Resolves with the exit status of `child`.
+ */
+export async function terminate(child: ChildProcess, gracePeriod = 5000) {
+    const exited = exitOf(child)
+    const {pid} = child
+
+    if (child.exitCode === null && child.signalCode === null && pid !== undefined) {
+        await terminatePid(pid, gracePeriod)
+    }
+
+    return exited
+}
@@ -1,113 +0,0 @@
-export const libIndex = [
-    'Apache-HttpComponents-HttpCore-4.4.x.jar',
-    'Apache-HttpComponents-HttpClient-4.5.x.jar',
-    'AwsFlowJava-1.0.jar',
-    'AwsJavaSdk-Core-2.0.jar',
-    'AwsJavaSdk-Core-Annotations-2.0.jar',
-    'AwsJavaSdk-Core-Auth-2.0.jar',
-    'AwsJavaSdk-Core-AwsCore-2.0.jar',
-    'AwsJavaSdk-Core-AwsJsonProtocol-2.0.jar',
-    'AwsJavaSdk-Core-EndpointsSpi-2.0.jar',
-    'AwsJavaSdk-Core-JsonUtils-2.0.jar',
-    'AwsJavaSdk-Core-MetricsSpi-2.0.jar',
-    'AwsJavaSdk-Core-Profiles-2.0.jar',
-    'AwsJavaSdk-Core-ProtocolCore-2.0.jar',
-    'AwsJavaSdk-Core-Regions-2.0.jar',
-    'AwsJavaSdk-Core-Utils-2.0.jar',
-    'AwsJavaSdk-DynamoDb-2.0.jar',
-    'AwsJavaSdk-DynamoDb-Enhanced-2.0.jar',
-    'AwsJavaSdk-HttpClient-2.0.jar',
-    'AwsJavaSdk-HttpClient-ApacheClient-2.0.jar',
-    'AwsJavaSdk-HttpClient-NettyNioClient-2.0.jar',
-    'DynamoDBPartiQLShared-1.1.jar',
-    'GoogleGuava-20.x.jar',
-    'IonJava.jar',
-    'JMESPathJava-1.12.x.jar',
-    'JakartaCommons-logging-1.2.jar',
-    'Log4j-api-2.x.jar',
-    'Log4j-core-2.x.jar',
-    'Log4j-slf4j-2.x.jar',
-    'annotations-13.0.jar',
-    'antlr-runtime-4.5.jar',
-    'aws-java-sdk-core-1.11.907.jar',
-    'aws-java-sdk-dynamodb-1.11.907.jar',
-    'aws-sdk-java-third-party-jackson-core-2.19.27.jar',
-    'commons-cli-1.2.jar',
-    'commons-lang3-3.12.0.jar',
-    'error_prone_annotations-2.6.0.jar',
-    'infinispan-common-9.4.48.v20220622.jar',
-    'infinispan-embedded-query-9.4.48.v20220622.jar',
-    'infinispan-remote-query-9.4.48.v20220622.jar',
-    'ion-element-0.2.0.jar',
-    'ion-java-1.5.1.jar',
-    'jackson-annotations-2.12.6.jar',
-    'jackson-core-2.12.7.jar',
-    'jackson-databind-2.12.7.1.jar',
-    'jackson-dataformat-cbor-2.12.7.jar',
-    'jackson-datatype-jsr310-2.12.7.jar',
-    'javax-websocket-client-impl-9.4.48.v20220622.jar',
-    'javax-websocket-server-impl-9.4.48.v20220622.jar',
-    'javax.websocket-api-1.0.jar',
-    'jetty-alpn-conscrypt-server-9.4.48.v20220622.jar',
-    'jetty-alpn-java-server-9.4.48.v20220622.jar',
-    'jetty-alpn-openjdk8-server-9.4.48.v20220622.jar',
-    'jetty-alpn-server-9.4.48.v20220622.jar',
-    'jetty-annotations-9.4.48.v20220622.jar',
-    'jetty-cdi-9.4.48.v20220622.jar',
-    'jetty-client-9.4.48.v20220622.jar',
-    'jetty-deploy-9.4.48.v20220622.jar',
-    'jetty-continuation-9.4.48.v20220622.jar',
-    'jetty-hazelcast-9.4.48.v20220622.jar',
-    'jetty-http-9.4.48.v20220622.jar',
-    'jetty-io-9.4.48.v20220622.jar',
-    'jetty-jaas-9.4.48.v20220622.jar',
-    'jetty-jaspi-9.4.48.v20220622.jar',
-    'jetty-jmx-9.4.48.v20220622.jar',
-    'jetty-jndi-9.4.48.v20220622.jar',
-    'jetty-memcached-sessions-9.4.48.v20220622.jar',
-    'jetty-nosql-9.4.48.v20220622.jar',
-    'jetty-openid-9.4.48.v20220622.jar',
-    'jetty-plus-9.4.48.v20220622.jar',
-    'jetty-proxy-9.4.48.v20220622.jar',
-    'jetty-quickstart-9.4.48.v20220622.jar',
-    'jetty-rewrite-9.4.48.v20220622.jar',
-    'jetty-schemas-3.1.jar',
-    'jetty-security-9.4.48.v20220622.jar',
-    'jetty-server-9.4.48.v20220622.jar',
-    'jetty-servlet-9.4.48.v20220622.jar',
-    'jetty-servlets-9.4.48.v20220622.jar',
-    'jetty-setuid-java-1.0.4.jar',
-    'jetty-spring-9.4.48.v20220622.jar',
-    'jetty-unixsocket-9.4.48.v20220622.jar',
-    'jetty-util-9.4.48.v20220622.jar',
-    'jetty-util-ajax-9.4.48.v20220622.jar',
-    'jetty-webapp-9.4.48.v20220622.jar',
-    'jetty-xml-9.4.48.v20220622.jar',
-    'joda-time-2.12.2.jar',
-    'jsr305-3.0.2.jar',
-    'kotlin-stdlib-1.6.21.jar',
-    'kotlin-stdlib-common-1.6.21.jar',
-    'kotlin-stdlib-jdk7-1.3.72.jar',
-    'kotlin-stdlib-jdk8-1.3.72.jar',
-    'libsqlite4java-linux-aarch64.so',
-    'libsqlite4java-linux-amd64.so',
-    'libsqlite4java-linux-i386.so',
-    'libsqlite4java-osx-aarch64.dylib',
-    'libsqlite4java-osx-x86_64.dylib',
-    'libsqlite4java-osx.dylib',
-    'netty-all-4.1.jar',
-    'partiql-ir-generator-runtime-0.4.0.jar',
-    'partiql-lang-kotlin-0.3.4.jar',
-    'reactive-streams-1.0.4.jar',
-    'servlet-api-3.1.jar',
-    'slf4j-api-1.7.32.jar',
-    'slf4j-ext-1.7.32.jar',
-    'sqlite4java-win32-x64.dll',
-    'sqlite4java-win32-x86.dll',
-    'sqlite4java.jar',
-    'websocket-api-9.4.48.v20220622.jar',
-    'websocket-client-9.4.48.v20220622.jar',
-    'websocket-common-9.4.48.v20220622.jar',
-    'websocket-server-9.4.48.v20220622.jar',
-    'websocket-servlet-9.4.48.v20220622.jar'
-] as const
\ No newline at end of file
@@ -0,0 +1,51 @@
+import {readFile} from 'node:fs/promises'
+import {extname, resolve} from 'node:path'
+import {pathToFileURL} from 'node:url'
+import {parse as parseYAML} from 'yaml'
+import {DynamoDBLocalError} from './error'
+
+const moduleExtensions = ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts']
+
+// the compiled CommonJS output turns `import()` into `require()`, which can't load ES modules
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<{default?: unknown}>
+
+/**
+ * Reads and parses a data file according to its extension: `.json`, `.yaml`/`.yml`, `.ndjson`/`.jsonl`
+ * (resolving to an array of the parsed lines) or a JavaScript/TypeScript module (resolving to its default export).
+ * TypeScript modules can only be loaded when the runtime supports them, e.g. under `ts-node` or `tsx`.
+ * Modules are imported once, unless `reload` is set. Reloading a module does not reload the modules it imports.
+ */
+export async function loadFile(path: string, reload = false): Promise<unknown> {
+    path = resolve(path)
+    const extension = extname(path).toLowerCase()
+
+    try {
+        if (moduleExtensions.includes(extension)) {
+            // the query makes a new ES module of the same file, while CommonJS modules are
+            // cached by file name whatever the query, so they are removed from the require cache
+            const url = pathToFileURL(path).href + (reload ? `?t=${Date.now()}` : '')
+            if (reload) delete require.cache[path]
+            const module = await importModule(url)
+            return module.default ?? module
+        }
+
+        const content = await readFile(path, 'utf8')
+
+        switch (extension) {
+            case '.yaml':
+            case '.yml':
+                return parseYAML(content)
+
+            case '.ndjson':
+            case '.jsonl':
+                return content.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line))
+
+            default:
+                return JSON.parse(content)
+        }
+    }
+
+    catch (error: any) {
+        throw new DynamoDBLocalError('FILE_ERROR', `Unable to load ${path}: ${error.message}`, {path}, {cause: error})
+    }
+}
@@ -0,0 +1,84 @@
+import {closeSync, existsSync, fstatSync, mkdirSync, openSync, renameSync, rmSync, writeSync} from 'node:fs'
+import {dirname, resolve} from 'node:path'
+
+export type OutputStream = 'stdout' | 'stderr'
+
+export interface LogFileOptions {
+    /**
+     * The file the output is appended to.
+     */
+    path: string
+    /**
+     * The size in bytes after which the file is rotated to `{path}.1`. If you don't specify this option,
+     * the default is 10 MiB.
+     */
+    maxSize?: number
+    /**
+     * How many rotated files are kept. If you don't specify this option, the default is `3`.
+     */
+    maxFiles?: number
+}
+
+export interface OutputOptions {
+    /**
+     * Prints the output of the DynamoDB process to the console as it comes.
+     */
+    logs?: boolean
+    /**
+     * Appends the output of the DynamoDB process to a file, given as a path or as {@link LogFileOptions}.
+     */
+    logFile?: string | LogFileOptions
+}
+
+/**
+ * An append-only log of the output of the DynamoDB process, rotated by size. Writes are synchronous
+ * so that the last lines before a crash are never lost.
+ */
+export class LogFile {
+    readonly path: string
+    readonly #maxSize: number
+    readonly #maxFiles: number
+    #fd: number
+    #size: number
+    #closed = false
+
+    constructor(options: string | LogFileOptions) {
+        const {path, maxSize = 10 * 1024 * 1024, maxFiles = 3} = typeof options === 'string' ? {path: options} : options
+        this.path = resolve(path)
+        this.#maxSize = maxSize
+        this.#maxFiles = maxFiles
+        mkdirSync(dirname(this.path), {recursive: true})
+        this.#fd = openSync(this.path, 'a')
+        this.#size = fstatSync(this.#fd).size
+    }
+
+    #rotate() {
+        closeSync(this.#fd)
+        rmSync(`${this.path}.${this.#maxFiles}`, {force: true})
+        for (let n = this.#maxFiles - 1; n >= 1; n--) {
+            if (existsSync(`${this.path}.${n}`)) renameSync(`${this.path}.${n}`, `${this.path}.${n + 1}`)
+        }
+
+        if (this.#maxFiles > 0) renameSync(this.path, `${this.path}.1`)
+        else rmSync(this.path, {force: true})
+        this.#fd = openSync(this.path, 'a')
+        this.#size = 0
+    }
+
+    /**
+     * Does nothing once the file is closed.
+     */
+    public write(stream: OutputStream, line: string) {
+        if (this.#closed) return
+        const entry = Buffer.from(`${new Date().toISOString()} ${stream} ${line}\n`)
+        if (this.#size > 0 && this.#size + entry.byteLength > this.#maxSize) this.#rotate()
+        writeSync(this.#fd, entry)
+        this.#size += entry.byteLength
+    }
+
+    public close() {
+        if (this.#closed) return
+        this.#closed = true
+        closeSync(this.#fd)
+    }
+}
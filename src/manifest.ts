@@ -0,0 +1,132 @@
+import {readdir, readFile, stat, writeFile} from 'node:fs/promises'
+import {createReadStream} from 'node:fs'
+import {createHash} from 'node:crypto'
+import {pipeline} from 'node:stream/promises'
+import {join, relative, sep} from 'node:path'
+import {DynamoDBLocalError} from './error'
+
+/**
+ * Name of the file recording what was installed in an installation directory.
+ */
+export const manifestFile = 'manifest.json'
+
+export interface Manifest {
+    /**
+     * The version that was requested at install time, e.g. `latest` or `2023-12-14`.
+     */
+    version: string
+    /**
+     * The URL the archive was downloaded from.
+     */
+    source: string
+    /**
+     * The SHA-256 of the downloaded archive.
+     */
+    sha256?: string
+    /**
+     * The `Last-Modified` header of the downloaded archive, which tells apart two `latest` installs.
+     */
+    lastModified?: string
+    /**
+     * ISO 8601 date of the installation.
+     */
+    installedAt: string
+    /**
+     * The size and SHA-256 of every installed file, keyed by its `/` separated path relative to the installation.
+     */
+    files?: Record<string, ManifestFile>
+}
+
+export interface ManifestFile {
+    size: number
+    sha256: string
+}
+
+export interface VerifyResult {
+    /**
+     * Whether the installation has a manifest listing its files. Installations made by older releases can't be verified.
+     */
+    verifiable: boolean
+    /**
+     * Files listed in the manifest that are missing from the installation.
+     */
+    missing: string[]
+    /**
+     * Files whose size or content differ from the manifest.
+     */
+    modified: string[]
+}
+
+export function validateVersion(version: string) {
+    if (!/^[\w.-]+$/.test(version) || version === '.' || version === '..') throw new DynamoDBLocalError(
+        'INVALID_OPTION',
+        `Invalid version ${version}, expected 'latest' or a release name such as '2023-12-14'`,
+        {option: 'version'}
+    )
+
+    return version
+}
+
+export async function readManifest(path: string): Promise<Manifest | undefined> {
+    try {
+        return JSON.parse(await readFile(join(path, manifestFile), 'utf8'))
+    }
+
+    catch {
+        return undefined
+    }
+}
+
+export async function writeManifest(path: string, manifest: Manifest) {
+    await writeFile(join(path, manifestFile), JSON.stringify(manifest, null, 4))
+}
+
+export async function hashFile(path: string) {
+    const hash = createHash('sha256')
+    await pipeline(createReadStream(path), hash)
+    return hash.digest('hex')
+}
+
+/**
+ * Lists the size and SHA-256 of every file under `path`, except the manifest itself.
+ */
+export async function indexFiles(path: string, directory = path, files: Record<string, ManifestFile> = {}) {
+    for (const entry of await readdir(directory, {withFileTypes: true})) {
+        const file = join(directory, entry.name)
+        const name = relative(path, file).split(sep).join('/')
+
+        if (entry.isDirectory()) {
+            await indexFiles(path, file, files)
+        }
+
+        else if (entry.isFile() && name !== manifestFile) {
+            files[name] = {size: (await stat(file)).size, sha256: await hashFile(file)}
+        }
+    }
+
+    return files
+}
+
+/**
+ * Compares the installation at `path` with its manifest. Only sizes are compared unless `hashes` is set,
+ * which is enough to tell whether the installation is complete.
+ */
+export async function verifyInstallation(path: string, {hashes}: {hashes?: boolean} = {}): Promise<VerifyResult> {
+    const files = (await readManifest(path))?.files
+    const result: VerifyResult = {verifiable: !!files, missing: [], modified: []}
+
+    for (const [name, expected] of Object.entries(files ?? {})) {
+        const file = join(path, ...name.split('/'))
+        try {
+            const stats = await stat(file)
+            if (!stats.isFile()) result.missing.push(name)
+            else if (stats.size !== expected.size || hashes && await hashFile(file) !== expected.sha256) result.modified.push(name)
+        }
+
+        catch {
+            result.missing.push(name)
+        }
+    }
+
+    return result
+}
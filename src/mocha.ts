@@ -0,0 +1,31 @@
+import {setupDynamoDBLocal, teardownDynamoDBLocal, type TestEnvironmentOptions} from './test-environment'
+
+/**
+ * Mocha global fixtures, loaded with `mocha --require @asn.aeb/dynamodb-local/mocha`.
+ */
+export async function mochaGlobalSetup() {
+    await setupDynamoDBLocal()
+}
+
+export async function mochaGlobalTeardown() {
+    await teardownDynamoDBLocal()
+}
+
+/**
+ * Creates Mocha root hooks starting DynamoDB with the given options:
+ * ```js
+ * // hooks.js, loaded with `mocha --require hooks.js`
+ * const {createMochaHooks} = require('@asn.aeb/dynamodb-local/mocha')
+ * exports.mochaHooks = createMochaHooks({sharedDB: true})
+ * ```
+ */
+export function createMochaHooks(options?: TestEnvironmentOptions) {
+    return {
+        async beforeAll() {
+            await setupDynamoDBLocal(options)
+        },
+        async afterAll() {
+            await teardownDynamoDBLocal()
+        }
+    }
+}
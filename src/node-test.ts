@@ -0,0 +1,29 @@
+import {before, after} from 'node:test'
+import {setupDynamoDBLocal, teardownDynamoDBLocal, type TestEnvironmentOptions} from './test-environment'
+import type {DynamoDBLocalInstance} from './dynamodb-instance'
+import {DynamoDBLocalError} from './error'
+
+/**
+ * Registers `before` and `after` hooks on the current `node:test` suite that start and stop DynamoDB.
+ * The returned object exposes the running instance once the `before` hook has run.
+ * ```js
+ * import {useDynamoDBLocal} from '@asn.aeb/dynamodb-local/node-test'
+ * const ddb = useDynamoDBLocal({sharedDB: true})
+ * test('works', () => fetch(ddb.instance.endpoint))
+ * ```
+ */
+export function useDynamoDBLocal(options?: TestEnvironmentOptions) {
+    const context: {instance: DynamoDBLocalInstance} = {
+        get instance(): DynamoDBLocalInstance {
+            throw new DynamoDBLocalError('NOT_RUNNING', 'DynamoDB is not started yet, access the instance from within a test or hook')
+        }
+    }
+
+    before(async () => {
+        const instance = await setupDynamoDBLocal(options)
+        Object.defineProperty(context, 'instance', {value: instance})
+    })
+
+    after(teardownDynamoDBLocal)
+    return context
+}
@@ -0,0 +1,29 @@
+import {rename, rm} from 'node:fs/promises'
+
+/**
+ * Moves `source` to `destination`, replacing its content. The previous content is restored if the move fails.
+ */
+export async function replaceDirectory(source: string, destination: string) {
+    const backup = `${destination}.previous-${process.pid}-${Date.now()}`
+    let moved = false
+
+    try {
+        await rename(destination, backup)
+        moved = true
+    }
+
+    catch (error: any) {
+        if (error.code !== 'ENOENT') throw error
+    }
+
+    try {
+        await rename(source, destination)
+    }
+
+    catch (error) {
+        if (moved) await rename(backup, destination)
+        throw error
+    }
+
+    if (moved) await rm(backup, {recursive: true, force: true})
+}
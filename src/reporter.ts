@@ -0,0 +1,263 @@
+import {createInterface} from 'node:readline'
+import {backgrounds, colors, formatTable, log, msg} from './shell'
+import type {OutputStream} from './log-file'
+
+export interface ProgressEvent {
+    task: 'download' | 'startup'
+    /**
+     * What is being done, e.g. `Downloading DynamoDB from s3.us-west-2.amazonaws.com`.
+     */
+    message: string
+    /**
+     * The bytes received so far, for downloads.
+     */
+    current?: number
+    total?: number
+    /**
+     * Set on the last event of the task, whether it succeeded or not.
+     */
+    done?: boolean
+}
+
+/**
+ * Receives what the CLI and the Javascript API have to say, and answers their questions.
+ */
+export interface Reporter {
+    message(message: string): void
+    info(message: string): void
+    success(message: string): void
+    warning(message: string): void
+    fail(message: string): void
+    /**
+     * The error a command ended with, written to stderr so that it does not mix with the results on stdout.
+     */
+    error(code: string, message: string): void
+    /**
+     * A line written by the DynamoDB process, when `logs` is set.
+     */
+    output(stream: OutputStream, line: string): void
+    /**
+     * A named value describing the result of a command, e.g. the port of a started instance.
+     */
+    detail(name: string, value: string | number | boolean): void
+    /**
+     * Rows of results, e.g. the items read by `scan`.
+     */
+    table(headers: string[], rows: string[][]): void
+    progress(event: ProgressEvent): void
+    /**
+     * Asks a yes/no question. Resolves without asking when the reporter is not interactive.
+     */
+    confirm(question: string): Promise<boolean>
+}
+
+export const reporterFormats = ['tty', 'plain', 'json', 'silent'] as const
+export type ReporterFormat = typeof reporterFormats[number]
+
+export interface ReporterOptions {
+    /**
+     * How to report. If you don't specify this option, `tty` is used when stdout is a terminal, else `plain`.
+     */
+    format?: ReporterFormat
+    /**
+     * Answers yes to every question without asking.
+     */
+    yes?: boolean
+    /**
+     * Whether questions can be asked. Only `tty` reporters can ask, and only when stdin is a terminal.
+     * Questions that are not asked take the value of the `yes` option, so they are answered no by default.
+     */
+    interactive?: boolean
+}
+
+function strip(text: string) {
+    return text.replace(/\x1b\[[\d;]*m/g, '')
+}
+
+/**
+ * Colored output, with progress redrawn in place and questions read from stdin.
+ */
+export class TTYReporter implements Reporter {
+    readonly #yes: boolean
+    readonly #interactive: boolean
+    #dots?: NodeJS.Timer
+
+    constructor({yes = false, interactive = !!process.stdin.isTTY}: Omit<ReporterOptions, 'format'> = {}) {
+        this.#yes = yes
+        this.#interactive = interactive && !yes
+    }
+
+    #clearLine() {
+        if (!process.stdout.isTTY) return
+        process.stdout.clearLine(0)
+        process.stdout.cursorTo(0)
+    }
+
+    message(message: string) {console.log(msg.message(message))}
+    info(message: string) {console.log(msg.info(message))}
+    success(message: string) {console.log(msg.success(message))}
+    warning(message: string) {console.log(msg.warning(message))}
+    fail(message: string) {console.log(msg.fail(message))}
+    error(code: string, message: string) {console.error(msg.error(code, message))}
+    output(stream: OutputStream, line: string) {console.log(msg.output(stream, line))}
+    detail(name: string, value: string | number | boolean) {console.log(msg.info(`${name}: `) + value)}
+    table(headers: string[], rows: string[][]) {console.log(formatTable(headers, rows))}
+
+    progress({task, message, current = 0, total, done}: ProgressEvent) {
+        if (done) {
+            clearInterval(this.#dots)
+            this.#dots = undefined
+            return this.#clearLine()
+        }
+
+        if (task === 'startup') {
+            if (this.#dots) return
+            process.stdout.write(msg.info(message))
+            this.#dots = setInterval(() => process.stdout.write('.'), 200)
+            return
+        }
+
+        const percentage = total ? Math.round((current * 100) / total) + '%' : `${Math.round(current / 1024)} KB`
+        this.#clearLine()
+        process.stdout.write(msg.info(message + ' ') + backgrounds.blue.bold(' ' + colors.white(percentage) + backgrounds.blue(' ')))
+    }
+
+    async confirm(question: string) {
+        if (!this.#interactive) {
+            console.log(msg.info(question) + (this.#yes ? ' yes' : ' no, not asked in non-interactive mode'))
+            return this.#yes
+        }
+
+        const input = createInterface(process.stdin, process.stdout)
+        try {
+            const answer = await new Promise<string>(resolve => {
+                // a closed stdin never answers
+                input.once('close', () => resolve(''))
+                input.question(msg.info(question + ' (Y/N): '), resolve)
+            })
+            return ['y', 'yes', 'ok'].includes(answer.trim().toLowerCase())
+        }
+
+        finally {
+            input.close()
+        }
+    }
+}
+
+/**
+ * Uncolored output for logs and CI, with progress reported in steps. Never asks questions.
+ */
+export class PlainReporter implements Reporter {
+    readonly #yes: boolean
+    #step = -1
+
+    constructor({yes = false}: Omit<ReporterOptions, 'format' | 'interactive'> = {}) {
+        this.#yes = yes
+    }
+
+    #print(text: string) {
+        console.log(strip(text))
+    }
+
+    #printError(text: string) {
+        console.error(strip(text))
+    }
+
+    message(message: string) {this.#print(msg.message(message))}
+    info(message: string) {this.#print(msg.info(message))}
+    success(message: string) {this.#print(msg.success(message))}
+    warning(message: string) {this.#print(msg.warning(message))}
+    fail(message: string) {this.#print(msg.fail(message))}
+    error(code: string, message: string) {this.#printError(msg.error(code, message))}
+    output(stream: OutputStream, line: string) {this.#print(msg.output(stream, line))}
+    detail(name: string, value: string | number | boolean) {this.#print(msg.info(`${name}: `) + value)}
+    table(headers: string[], rows: string[][]) {this.#print(formatTable(headers, rows))}
+
+    progress({message, current = 0, total, done}: ProgressEvent) {
+        if (done) {
+            this.#step = -1
+            return
+        }
+
+        // prints the start of the task, then every quarter of a download
+        const step = total ? Math.floor((current * 4) / total) : 0
+        if (step <= this.#step) return
+        this.#step = step
+        this.#print(msg.info(message) + (step ? ` ${step * 25}%` : ''))
+    }
+
+    async confirm(question: string) {
+        this.#print(msg.info(question) + (this.#yes ? ' yes' : ' no, not asked in non-interactive mode'))
+        return this.#yes
+    }
+}
+
+/**
+ * One JSON object per line on stdout, e.g. `{"type":"warning","message":"..."}`, errors on stderr. Never asks questions.
+ */
+export class JSONReporter implements Reporter {
+    readonly #yes: boolean
+
+    constructor({yes = false}: Omit<ReporterOptions, 'format' | 'interactive'> = {}) {
+        this.#yes = yes
+    }
+
+    #print(event: {type: string, [key: string]: unknown}, stream: NodeJS.WritableStream = process.stdout) {
+        stream.write(JSON.stringify(event) + '\n')
+    }
+
+    message(message: string) {this.#print({type: 'message', message: strip(message)})}
+    info(message: string) {this.#print({type: 'info', message: strip(message)})}
+    success(message: string) {this.#print({type: 'success', message: strip(message)})}
+    warning(message: string) {this.#print({type: 'warning', message: strip(message)})}
+    fail(message: string) {this.#print({type: 'fail', message: strip(message)})}
+    error(code: string, message: string) {this.#print({type: 'error', code, message: strip(message)}, process.stderr)}
+    output(stream: OutputStream, line: string) {this.#print({type: 'output', stream, line})}
+    detail(name: string, value: string | number | boolean) {this.#print({type: 'detail', name, value})}
+    table(headers: string[], rows: string[][]) {this.#print({type: 'table', headers, rows: rows.map(row => row.map(strip))})}
+    progress(event: ProgressEvent) {this.#print({type: 'progress', ...event, message: strip(event.message)})}
+
+    async confirm(question: string) {
+        this.#print({type: 'confirm', question: strip(question), answer: this.#yes})
+        return this.#yes
+    }
+}
+
+/**
+ * Reports nothing but the output of the DynamoDB process, which is only sent when `logs` is set.
+ * Questions are not asked and take the value of the `yes` option, so they are answered no by default. Used by the Javascript API.
+ */
+export class SilentReporter implements Reporter {
+    readonly #yes: boolean
+
+    constructor({yes = false}: Omit<ReporterOptions, 'format' | 'interactive'> = {}) {
+        this.#yes = yes
+    }
+
+    message() {}
+    info() {}
+    success() {}
+    warning() {}
+    fail() {}
+    error() {}
+    output(stream: OutputStream, line: string) {log.output(stream, line)}
+    detail() {}
+    table() {}
+    progress() {}
+
+    async confirm() {
+        return this.#yes
+    }
+}
+
+/**
+ * Creates the reporter of `format`, picked from stdout when not given.
+ */
+export function createReporter({format = process.stdout.isTTY ? 'tty' : 'plain', ...options}: ReporterOptions = {}): Reporter {
+    switch (format) {
+        case 'tty': return new TTYReporter(options)
+        case 'json': return new JSONReporter(options)
+        case 'silent': return new SilentReporter(options)
+        default: return new PlainReporter(options)
+    }
+}
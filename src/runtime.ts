@@ -0,0 +1,180 @@
+import {join} from 'node:path'
+import {findJava} from './java'
+import {dockerImage, findDocker, pullImage, removeContainer} from './docker'
+import {readManifest} from './manifest'
+import type {Reporter} from './reporter'
+
+export const runtimes = ['java', 'docker'] as const
+export type Runtime = typeof runtimes[number]
+
+export interface RuntimeOptions {
+    /**
+     * What runs DynamoDB: `java` runs the installation in the install path with a local Java runtime, `docker` runs
+     * the `amazon/dynamodb-local` image in a container and needs no installation nor Java.
+     * If you don't specify this option, the default is `java`.
+     */
+    runtime?: Runtime
+    /**
+     * The `docker` executable of the docker runtime. If you don't specify this option, the first `docker` in `PATH` is used.
+     */
+    dockerPath?: string
+    /**
+     * The image run by the docker runtime. If you don't specify this option, the default is
+     * `amazon/dynamodb-local:{version}`, where `version` defaults to `latest`.
+     */
+    image?: string
+}
+
+/**
+ * The options of a DynamoDB process, once validated and resolved.
+ */
+export interface LaunchOptions {
+    port: number
+    /**
+     * The absolute database directory, `undefined` when running `inMemory`.
+     */
+    dbPath?: string
+    inMemory: boolean
+    /**
+     * Whether `dbPath` was given rather than defaulted.
+     */
+    optimizeDbBeforeStartup: boolean
+    cors?: string[]
+    sharedDB: boolean
+    delayTransientStatuses: boolean
+    jvmArgs: string[]
+}
+
+export interface RuntimeInfo {
+    /**
+     * The version of the runtime itself, e.g. of Java or of the docker daemon.
+     */
+    runtime: string
+    /**
+     * The DynamoDB version run: the installed version for `java`, the image for `docker`.
+     */
+    version?: string
+}
+
+export interface RuntimeCommand {
+    command: string
+    args: string[]
+}
+
+/**
+ * Runs DynamoDB processes. Each process runs in the foreground of its command, so that terminating the
+ * command terminates DynamoDB.
+ */
+export interface RuntimeBackend {
+    readonly name: Runtime
+    /**
+     * Checks that the runtime is usable, fetching what it lacks, before anything is spawned.
+     */
+    prepare(reporter: Reporter): Promise<RuntimeInfo>
+    command(options: LaunchOptions): RuntimeCommand
+    /**
+     * Removes what a process killed with `SIGKILL` leaves behind. Must not wait, it runs on exit.
+     */
+    cleanup(options: LaunchOptions): void
+}
+
+/**
+ * The arguments of `DynamoDBLocal.jar`, common to every runtime.
+ */
+function dynamodbArguments({port, dbPath, inMemory, optimizeDbBeforeStartup, cors, sharedDB, delayTransientStatuses}: LaunchOptions) {
+    const args: string[] = []
+    if (cors?.length) args.push('-cors', cors.join(', '))
+    args.push('-port', String(port))
+    if (inMemory) args.push('-inMemory')
+    if (dbPath) args.push('-dbPath', dbPath)
+    if (dbPath && optimizeDbBeforeStartup) args.push('-optimizeDbBeforeStartup')
+    if (delayTransientStatuses) args.push('-delayTransientStatuses')
+    if (sharedDB) args.push('-sharedDb')
+    return args
+}
+
+/**
+ * Runs the installation at `installation` with the local `java`.
+ */
+export class JavaBackend implements RuntimeBackend {
+    readonly name = 'java'
+    readonly #installation: string
+    readonly #javaPath?: string
+    #java?: string
+
+    constructor(installation: string, javaPath?: string) {
+        this.#installation = installation
+        this.#javaPath = javaPath
+    }
+
+    async prepare() {
+        const java = await findJava(this.#javaPath)
+        this.#java = java.path
+        return {runtime: java.version, version: (await readManifest(this.#installation))?.version}
+    }
+
+    command(options: LaunchOptions) {
+        const args = [
+            `-Djava.library.path=${join(this.#installation, 'DynamoDBLocal_lib')}`,
+            ...options.jvmArgs,
+            '-jar', join(this.#installation, 'DynamoDBLocal.jar'),
+            ...dynamodbArguments(options)
+        ]
+
+        return {command: this.#java ?? 'java', args}
+    }
+
+    cleanup() {}
+}
+
+/**
+ * Runs the `amazon/dynamodb-local` image, publishing the port and bind mounting the database directory.
+ */
+export class DockerBackend implements RuntimeBackend {
+    /**
+     * Where the image keeps its files, and where `dbPath` is mounted.
+     */
+    static readonly home = '/home/dynamodblocal'
+
+    readonly name = 'docker'
+    readonly #dockerPath: string
+    readonly #image: string
+
+    constructor({dockerPath = 'docker', image, version}: RuntimeOptions & {version?: string}) {
+        this.#dockerPath = dockerPath
+        this.#image = image ?? `${dockerImage}:${version ?? 'latest'}`
+    }
+
+    async prepare(reporter: Reporter) {
+        const docker = await findDocker(this.#dockerPath)
+        await pullImage(this.#dockerPath, this.#image, reporter)
+        return {runtime: docker.version, version: this.#image}
+    }
+
+    #container(port: number) {
+        return `dynamodb-local-${port}`
+    }
+
+    command(options: LaunchOptions) {
+        const {home} = DockerBackend
+        const args = ['run', '--rm', '--name', this.#container(options.port), '--publish', `${options.port}:8000`]
+        if (options.dbPath) {
+            args.push('--volume', `${options.dbPath}:${home}/data`)
+            // the files are written with the ids of the host user rather than those of the image
+            if (process.getuid && process.getgid) args.push('--user', `${process.getuid()}:${process.getgid()}`)
+        }
+
+        args.push(
+            this.#image,
+            ...options.jvmArgs,
+            `-Djava.library.path=./DynamoDBLocal_lib`, '-jar', 'DynamoDBLocal.jar',
+            ...dynamodbArguments({...options, port: 8000, dbPath: options.dbPath && `${home}/data`})
+        )
+
+        return {command: this.#dockerPath, args}
+    }
+
+    cleanup({port}: LaunchOptions) {
+        removeContainer(this.#dockerPath, this.#container(port))
+    }
+}
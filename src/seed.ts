@@ -0,0 +1,214 @@
+import {setTimeout as sleep} from 'node:timers/promises'
+import {dynamodbRequest} from './dynamodb-client'
+import {DynamoDBLocalError} from './error'
+import {loadFile} from './load-file'
+
+export type AttributeValue =
+    | {S: string}
+    | {N: string}
+    | {B: string}
+    | {BOOL: boolean}
+    | {NULL: true}
+    | {SS: string[]}
+    | {NS: string[]}
+    | {BS: string[]}
+    | {L: AttributeValue[]}
+    | {M: Item}
+
+/**
+ * An item in DynamoDB JSON format, e.g. `{"id": {"S": "1"}, "count": {"N": "2"}}`.
+ */
+export type Item = Record<string, AttributeValue>
+
+interface KeySchemaElement {
+    AttributeName: string
+    KeyType: 'HASH' | 'RANGE'
+}
+
+interface Projection {
+    ProjectionType?: 'ALL' | 'KEYS_ONLY' | 'INCLUDE'
+    NonKeyAttributes?: string[]
+}
+
+interface ProvisionedThroughput {
+    ReadCapacityUnits: number
+    WriteCapacityUnits: number
+}
+
+/**
+ * A table definition in the shape of a `CreateTable` request, optionally with its `TimeToLiveSpecification`.
+ */
+export interface TableDefinition {
+    TableName: string
+    AttributeDefinitions: {AttributeName: string, AttributeType: 'S' | 'N' | 'B'}[]
+    KeySchema: KeySchemaElement[]
+    BillingMode?: 'PROVISIONED' | 'PAY_PER_REQUEST'
+    ProvisionedThroughput?: ProvisionedThroughput
+    GlobalSecondaryIndexes?: {
+        IndexName: string
+        KeySchema: KeySchemaElement[]
+        Projection: Projection
+        ProvisionedThroughput?: ProvisionedThroughput
+    }[]
+    LocalSecondaryIndexes?: {
+        IndexName: string
+        KeySchema: KeySchemaElement[]
+        Projection: Projection
+    }[]
+    StreamSpecification?: {StreamEnabled: boolean, StreamViewType?: string}
+    TimeToLiveSpecification?: {AttributeName: string, Enabled: boolean}
+    [key: string]: unknown
+}
+
+/**
+ * Fixture items grouped by table name.
+ */
+export type Fixtures = Record<string, Item[]>
+
+export interface SeedOptions {
+    /**
+     * Tables to create once DynamoDB is ready: either the definitions themselves or the path to a JSON, YAML,
+     * JavaScript or TypeScript file containing a definition or an array of definitions. Existing tables are left untouched.
+     */
+    tables?: string | TableDefinition | TableDefinition[]
+    /**
+     * Items to insert once the tables are created: either the items grouped by table name or the path to a file
+     * containing them. JSON and YAML files hold an object of items grouped by table name, NDJSON files
+     * (`.ndjson` or `.jsonl`) hold one `{"TableName": "...", "Item": {...}}` object per line.
+     */
+    fixtures?: string | Fixtures
+}
+
+export interface SeedResult {
+    created: string[]
+    skipped: string[]
+    items: number
+}
+
+export async function loadTables(source: NonNullable<SeedOptions['tables']>, reload = false) {
+    const tables = typeof source === 'string' ? await loadFile(source, reload) : source
+    const list = (Array.isArray(tables) ? tables : [tables]) as TableDefinition[]
+
+    for (const table of list) {
+        if (!table || typeof table.TableName !== 'string' || !Array.isArray(table.KeySchema)) {
+            throw new DynamoDBLocalError('SEED_FAILED', 'Every table definition must have a TableName and a KeySchema')
+        }
+    }
+
+    return list
+}
+
+export async function loadFixtures(source: NonNullable<SeedOptions['fixtures']>, reload = false) {
+    const fixtures = typeof source === 'string' ? await loadFile(source, reload) : source
+
+    if (Array.isArray(fixtures)) {
+        const grouped: Fixtures = {}
+        for (const line of fixtures) {
+            if (typeof line?.TableName !== 'string' || typeof line?.Item !== 'object') {
+                throw new DynamoDBLocalError('SEED_FAILED', 'Every NDJSON fixture line must have a TableName and an Item')
+            }
+
+            (grouped[line.TableName] ??= []).push(line.Item)
+        }
+
+        return grouped
+    }
+
+    if (!fixtures || typeof fixtures !== 'object' || Object.values(fixtures).some(items => !Array.isArray(items))) {
+        throw new DynamoDBLocalError('SEED_FAILED', 'Fixtures must be an object of item arrays grouped by table name')
+    }
+
+    return fixtures as Fixtures
+}
+
+export async function listTables(endpoint: string) {
+    const tables: string[] = []
+    let ExclusiveStartTableName: string | undefined
+    do {
+        const output = await dynamodbRequest(endpoint, 'ListTables', {ExclusiveStartTableName})
+        tables.push(...output.TableNames)
+        ExclusiveStartTableName = output.LastEvaluatedTableName
+    } while (ExclusiveStartTableName)
+
+    return tables
+}
+
+/**
+ * Polls `DescribeTable` until the table and its global secondary indexes are `ACTIVE`, for at most `timeout` milliseconds.
+ */
+export async function waitForTable(endpoint: string, TableName: string, timeout = 30000) {
+    const deadline = Date.now() + timeout
+    for (;;) {
+        const {Table} = await dynamodbRequest(endpoint, 'DescribeTable', {TableName})
+        const indexes: {IndexStatus: string}[] = Table.GlobalSecondaryIndexes ?? []
+        if (Table.TableStatus === 'ACTIVE' && indexes.every(index => index.IndexStatus === 'ACTIVE')) return
+        if (Date.now() >= deadline) throw new DynamoDBLocalError(
+            'SEED_FAILED',
+            `Table ${TableName} did not become ACTIVE within ${timeout}ms`,
+            {table: TableName, timeout}
+        )
+
+        await sleep(100)
+    }
+}
+
+/**
+ * Creates the table of `definition` and waits for it to be ready. Tables are billed per request unless
+ * the definition says otherwise, or gives a throughput to the table or to one of its indexes.
+ */
+export async function createTable(endpoint: string, {TimeToLiveSpecification, ...definition}: TableDefinition) {
+    const provisioned = definition.ProvisionedThroughput || definition.GlobalSecondaryIndexes?.some(index => index.ProvisionedThroughput)
+    if (!definition.BillingMode && !provisioned) {
+        definition.BillingMode = 'PAY_PER_REQUEST'
+    }
+
+    await dynamodbRequest(endpoint, 'CreateTable', definition)
+    await waitForTable(endpoint, definition.TableName)
+
+    if (TimeToLiveSpecification) {
+        await dynamodbRequest(endpoint, 'UpdateTimeToLive', {TableName: definition.TableName, TimeToLiveSpecification})
+    }
+}
+
+/**
+ * Writes `items` with `BatchWriteItem` in chunks of 25, retrying unprocessed items with exponential backoff.
+ */
+export async function writeItems(endpoint: string, TableName: string, items: Item[]) {
+    for (let i = 0; i < items.length; i += 25) {
+        let requests: object = {[TableName]: items.slice(i, i + 25).map(Item => ({PutRequest: {Item}}))}
+
+        for (let attempt = 0; Object.keys(requests).length; attempt++) {
+            if (attempt) await sleep(Math.min(50 * 2 ** attempt, 2000))
+            const {UnprocessedItems} = await dynamodbRequest(endpoint, 'BatchWriteItem', {RequestItems: requests})
+            requests = UnprocessedItems ?? {}
+        }
+    }
+}
+
+/**
+ * Creates the missing `tables` and inserts `fixtures` into the DynamoDB instance listening at `endpoint`.
+ */
+export async function seed(endpoint: string, {tables, fixtures}: SeedOptions): Promise<SeedResult> {
+    const result: SeedResult = {created: [], skipped: [], items: 0}
+    const definitions = tables ? await loadTables(tables) : []
+    const items = fixtures ? await loadFixtures(fixtures) : {}
+
+    const existing = await listTables(endpoint)
+
+    for (const definition of definitions) {
+        if (existing.includes(definition.TableName)) {
+            result.skipped.push(definition.TableName)
+            continue
+        }
+
+        await createTable(endpoint, definition)
+        result.created.push(definition.TableName)
+    }
+
+    for (const [table, list] of Object.entries(items)) {
+        await writeItems(endpoint, table, list)
+        result.items += list.length
+    }
+
+    return result
+}
@@ -153,6 +153,27 @@ export const styles = {
     reverse: (text: string) => print(text, Styles.RESET)
 }
 
+function visibleLength(text: string) {
+    return text.replace(/\x1b\[[\d;]*m/g, '').length
+}
+
+/**
+ * Lays out `rows` in columns under bold `headers`, e.g. for the items printed by `scan`.
+ */
+export function formatTable(headers: string[], rows: string[][]) {
+    const widths = headers.map((header, i) => Math.max(visibleLength(header), ...rows.map(row => visibleLength(row[i] ?? ''))))
+    const line = (cells: string[]) => widths
+        .map((width, i) => (cells[i] ?? '') + ' '.repeat(width - visibleLength(cells[i] ?? '')))
+        .join(colors.gray(' │ '))
+        .trimEnd()
+
+    return [
+        line(headers.map(styles.bold)),
+        colors.gray(widths.map(width => '─'.repeat(width)).join('─┼─')),
+        ...rows.map(line)
+    ].join('\n')
+}
+
 export const msg = {
     prefix: `[${colors.purple('DynamoDBLocal')}] `,
     error(name: string, message: string) {
@@ -172,6 +193,9 @@ export const msg = {
     },
     fail (message: string) {
         return this.prefix + colors.red.bold(message.toUpperCase())
+    },
+    output(stream: 'stdout' | 'stderr', line: string) {
+        return this.prefix + (stream === 'stderr' ? colors.red(line) : colors.gray(line))
     }
 }
 
@@ -193,5 +217,8 @@ export const log = {
     },
     fail (message: string) {
         console.log(msg.fail(message))
+    },
+    output(stream: 'stdout' | 'stderr', line: string) {
+        console.log(msg.output(stream, line))
     }
 }
\ No newline at end of file
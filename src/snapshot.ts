@@ -0,0 +1,192 @@
+import {copyFile, mkdir, readdir, readFile, rm, writeFile} from 'node:fs/promises'
+import {basename, join} from 'node:path'
+import {dynamodbRequest} from './dynamodb-client'
+import {DynamoDBLocalError} from './error'
+import {replaceDirectory} from './replace-directory'
+import {createTable, listTables, writeItems, type Fixtures, type Item, type TableDefinition} from './seed'
+
+export interface TableDump {
+    tables: TableDefinition[]
+    items: Fixtures
+}
+
+/**
+ * Converts the output of `DescribeTable` back into the `CreateTable` request that produces the same table.
+ */
+export function toTableDefinition(table: any, ttl?: {TimeToLiveStatus?: string, AttributeName?: string}): TableDefinition {
+    const throughput = (value?: {ReadCapacityUnits: number, WriteCapacityUnits: number}) =>
+        value?.ReadCapacityUnits ? {ReadCapacityUnits: value.ReadCapacityUnits, WriteCapacityUnits: value.WriteCapacityUnits} : undefined
+
+    const billingMode = table.BillingModeSummary?.BillingMode ?? (throughput(table.ProvisionedThroughput) ? 'PROVISIONED' : 'PAY_PER_REQUEST')
+    const definition: TableDefinition = {
+        TableName: table.TableName,
+        AttributeDefinitions: table.AttributeDefinitions,
+        KeySchema: table.KeySchema,
+        BillingMode: billingMode
+    }
+
+    if (billingMode === 'PROVISIONED')
+        definition.ProvisionedThroughput = throughput(table.ProvisionedThroughput)
+
+    if (table.GlobalSecondaryIndexes?.length)
+        definition.GlobalSecondaryIndexes = table.GlobalSecondaryIndexes.map((index: any) => ({
+            IndexName: index.IndexName,
+            KeySchema: index.KeySchema,
+            Projection: index.Projection,
+            ProvisionedThroughput: billingMode === 'PROVISIONED' ? throughput(index.ProvisionedThroughput) : undefined
+        }))
+
+    if (table.LocalSecondaryIndexes?.length)
+        definition.LocalSecondaryIndexes = table.LocalSecondaryIndexes.map((index: any) => ({
+            IndexName: index.IndexName,
+            KeySchema: index.KeySchema,
+            Projection: index.Projection
+        }))
+
+    if (table.StreamSpecification?.StreamEnabled)
+        definition.StreamSpecification = table.StreamSpecification
+
+    if (ttl?.AttributeName && ['ENABLED', 'ENABLING'].includes(ttl.TimeToLiveStatus!))
+        definition.TimeToLiveSpecification = {AttributeName: ttl.AttributeName, Enabled: true}
+
+    return definition
+}
+
+export async function describeTable(endpoint: string, TableName: string) {
+    const [{Table}, {TimeToLiveDescription}] = await Promise.all([
+        dynamodbRequest(endpoint, 'DescribeTable', {TableName}),
+        dynamodbRequest(endpoint, 'DescribeTimeToLive', {TableName})
+    ])
+
+    return toTableDefinition(Table, TimeToLiveDescription)
+}
+
+export async function scanTable(endpoint: string, TableName: string) {
+    const items: Item[] = []
+    let ExclusiveStartKey: Item | undefined
+    do {
+        const output = await dynamodbRequest(endpoint, 'Scan', {TableName, ExclusiveStartKey})
+        items.push(...output.Items)
+        ExclusiveStartKey = output.LastEvaluatedKey
+    } while (ExclusiveStartKey)
+
+    return items
+}
+
+/**
+ * Reads the definitions and the items of every table over the DynamoDB API.
+ */
+export async function dumpTables(endpoint: string): Promise<TableDump> {
+    const dump: TableDump = {tables: [], items: {}}
+    for (const TableName of await listTables(endpoint)) {
+        dump.tables.push(await describeTable(endpoint, TableName))
+        dump.items[TableName] = await scanTable(endpoint, TableName)
+    }
+
+    return dump
+}
+
+/**
+ * Deletes every table, then recreates the tables and items of `dump`.
+ */
+export async function restoreTables(endpoint: string, {tables, items}: TableDump) {
+    for (const TableName of await listTables(endpoint)) {
+        await dynamodbRequest(endpoint, 'DeleteTable', {TableName})
+    }
+
+    for (const table of tables) {
+        await createTable(endpoint, table)
+    }
+
+    for (const [TableName, list] of Object.entries(items)) {
+        await writeItems(endpoint, TableName, list)
+    }
+}
+
+export async function copyDirectory(source: string, destination: string) {
+    await mkdir(destination, {recursive: true})
+    for (const entry of await readdir(source, {withFileTypes: true})) {
+        if (entry.isDirectory()) await copyDirectory(join(source, entry.name), join(destination, entry.name))
+        else await copyFile(join(source, entry.name), join(destination, entry.name))
+    }
+}
+
+/**
+ * The directory where snapshots of the instances started from the installation at `path` are stored.
+ */
+export function snapshotsDirectory(path: string) {
+    return join(path, 'DynamoDBLocal_snapshots')
+}
+
+/**
+ * Resolves the directory of the snapshot called `name` under `snapshotsPath`.
+ */
+export function snapshotPath(snapshotsPath: string, name: string) {
+    if (!/^[\w.-]+$/.test(name) || name === '.' || name === '..') throw new DynamoDBLocalError(
+        'INVALID_OPTION',
+        `Invalid snapshot name ${name}, only letters, digits, dots, dashes and underscores are allowed`,
+        {option: 'name'}
+    )
+
+    return join(snapshotsPath, name)
+}
+
+export async function listSnapshots(snapshotsPath: string) {
+    try {
+        const entries = await readdir(snapshotsPath, {withFileTypes: true})
+        // skips the staging directories of snapshots being written
+        return entries.filter(entry => entry.isDirectory() && /^[\w.-]+$/.test(entry.name)).map(entry => entry.name).sort()
+    }
+
+    catch {
+        return []
+    }
+}
+
+/**
+ * Lists the files of the snapshot at `path`, rejecting when it does not exist.
+ */
+export async function readSnapshot(path: string) {
+    try {
+        return await readdir(path)
+    }
+
+    catch {
+        throw new DynamoDBLocalError('SNAPSHOT_FAILED', `Snapshot ${path} does not exist`, {name: basename(path)})
+    }
+}
+
+/**
+ * Fills a staging directory next to the snapshot directory `path` through `write`, then swaps it into place,
+ * so that a previous snapshot with the same name is kept when `write` fails.
+ */
+export async function writeSnapshot(path: string, write: (staging: string) => Promise<void>) {
+    const staging = `${path}~${process.pid}-${Date.now()}`
+    try {
+        await write(staging)
+        await replaceDirectory(staging, path)
+    }
+
+    finally {
+        await rm(staging, {recursive: true, force: true})
+    }
+}
+
+/**
+ * Exports every table of the instance listening at `endpoint` into the snapshot directory `path`.
+ */
+export async function saveSnapshot(endpoint: string, path: string) {
+    const dump = await dumpTables(endpoint)
+    await writeSnapshot(path, async staging => {
+        await mkdir(staging, {recursive: true})
+        await writeFile(join(staging, 'tables.json'), JSON.stringify(dump))
+    })
+}
+
+/**
+ * Restores the tables exported by `saveSnapshot` from the snapshot directory `path`.
+ */
+export async function loadSnapshot(endpoint: string, path: string) {
+    const dump: TableDump = JSON.parse(await readFile(join(path, 'tables.json'), 'utf8'))
+    await restoreTables(endpoint, dump)
+}
@@ -0,0 +1,56 @@
+import {dynamodbRequest} from './dynamodb-client'
+import type {AttributeValue, Item} from './seed'
+
+export interface ReadResult {
+    Items: Item[]
+    Count: number
+    ScannedCount: number
+}
+
+export async function deleteTable(endpoint: string, TableName: string) {
+    const {TableDescription} = await dynamodbRequest(endpoint, 'DeleteTable', {TableName})
+    return TableDescription
+}
+
+/**
+ * Runs a `Scan` or a `Query` page after page, until the last page or until `limit` items were read.
+ */
+export async function readItems(endpoint: string, operation: 'Scan' | 'Query', input: object, limit = Infinity) {
+    const result: ReadResult = {Items: [], Count: 0, ScannedCount: 0}
+    let ExclusiveStartKey: Item | undefined
+    do {
+        const Limit = Number.isFinite(limit) ? limit - result.Count : undefined
+        const output = await dynamodbRequest(endpoint, operation, {...input, Limit, ExclusiveStartKey})
+        result.Items.push(...output.Items)
+        result.Count += output.Count
+        result.ScannedCount += output.ScannedCount
+        ExclusiveStartKey = output.LastEvaluatedKey
+    } while (ExclusiveStartKey && result.Count < limit)
+
+    return result
+}
+
+export async function getItem(endpoint: string, TableName: string, Key: Item): Promise<Item | undefined> {
+    const {Item} = await dynamodbRequest(endpoint, 'GetItem', {TableName, Key})
+    return Item
+}
+
+export async function putItem(endpoint: string, TableName: string, Item: Item) {
+    await dynamodbRequest(endpoint, 'PutItem', {TableName, Item})
+}
+
+/**
+ * Converts an attribute from DynamoDB JSON to the value it holds, e.g. `{"N": "2"}` to `2`. Binary values stay base64.
+ */
+export function toValue(attribute: AttributeValue): unknown {
+    if ('S' in attribute) return attribute.S
+    if ('N' in attribute) return Number(attribute.N)
+    if ('B' in attribute) return attribute.B
+    if ('BOOL' in attribute) return attribute.BOOL
+    if ('NULL' in attribute) return null
+    if ('SS' in attribute) return attribute.SS
+    if ('NS' in attribute) return attribute.NS.map(Number)
+    if ('BS' in attribute) return attribute.BS
+    if ('L' in attribute) return attribute.L.map(toValue)
+    return Object.fromEntries(Object.entries(attribute.M).map(([name, value]) => [name, toValue(value)]))
+}
@@ -0,0 +1,90 @@
+import {DynamoDBLocal, type StartOptions} from './dynamodb-local'
+import type {DynamoDBLocalInstance, StopOptions} from './dynamodb-instance'
+
+export interface TestEnvironmentOptions extends Omit<StartOptions, 'install'>, StopOptions {
+    /**
+     * The directory of the DynamoDB installation to use. If you don't specify this option,
+     * the default install location is used. DynamoDB is installed there first when missing.
+     */
+    path?: string
+}
+
+/**
+ * The environment variables through which the started instance is exposed to test workers.
+ * `AWS_ENDPOINT_URL_DYNAMODB` is read by the AWS SDKs, so clients pick up the endpoint without configuration.
+ * None of them configures `start()`, so the instances started by the workers don't take the port of the shared one.
+ */
+export const environmentVariables = {
+    endpoint: 'DYNAMODB_LOCAL_ENDPOINT',
+    port: 'DYNAMODB_LOCAL_TEST_PORT',
+    sdkEndpoint: 'AWS_ENDPOINT_URL_DYNAMODB'
+} as const
+
+// DynamoDB Local accepts any credentials, but the AWS SDKs refuse to send requests without them
+const fakeCredentials = {
+    AWS_ACCESS_KEY_ID: 'local',
+    AWS_SECRET_ACCESS_KEY: 'local',
+    AWS_REGION: 'localhost'
+}
+
+const signals = ['SIGINT', 'SIGTERM', 'SIGHUP'] as const
+
+interface State {
+    instance: DynamoDBLocalInstance
+    options: TestEnvironmentOptions
+    onSignal: (signal: NodeJS.Signals) => void
+}
+
+// Test runners may load the setup and teardown modules in separate module registries, so the state lives on globalThis
+const stateKey = Symbol.for('@asn.aeb/dynamodb-local/test-environment')
+const store = globalThis as typeof globalThis & {[stateKey]?: State}
+
+/**
+ * Installs DynamoDB if needed, starts an instance on a free port and exposes its endpoint to test workers
+ * through {@link environmentVariables}. The instance is killed if the test run is interrupted or crashes.
+ */
+export async function setupDynamoDBLocal(options: TestEnvironmentOptions = {}) {
+    if (store[stateKey]) {
+        return store[stateKey]!.instance
+    }
+
+    const {path, ...args} = options
+    const ddb = path ? new DynamoDBLocal(path) : DynamoDBLocal
+    const instance = await ddb.launch({port: 'auto', inMemory: !args.dbPath, ...args, install: true})
+
+    const onSignal = (signal: NodeJS.Signals) => {
+        instance.kill()
+        signals.forEach(signal => process.off(signal, onSignal))
+        process.kill(process.pid, signal)
+    }
+
+    signals.forEach(signal => process.once(signal, onSignal))
+    store[stateKey] = {instance, options, onSignal}
+
+    process.env[environmentVariables.endpoint] = instance.endpoint
+    process.env[environmentVariables.port] = String(instance.port)
+    process.env[environmentVariables.sdkEndpoint] = instance.endpoint
+    for (const [name, value] of Object.entries(fakeCredentials)) {
+        process.env[name] ??= value
+    }
+
+    return instance
+}
+
+/**
+ * Stops the instance started by {@link setupDynamoDBLocal}. Does nothing when no instance was started.
+ */
+export async function teardownDynamoDBLocal() {
+    const state = store[stateKey]
+    if (!state) return
+
+    delete store[stateKey]
+    signals.forEach(signal => process.off(signal, state.onSignal))
+    await state.instance.stop(state.options)
+
+    for (const name of Object.values(environmentVariables)) {
+        if (process.env[name] === state.instance.endpoint || process.env[name] === String(state.instance.port)) {
+            delete process.env[name]
+        }
+    }
+}
@@ -0,0 +1,365 @@
+import {createReadStream, createWriteStream, type WriteStream} from 'node:fs'
+import {mkdir, readdir, readFile, stat, writeFile} from 'node:fs/promises'
+import {createHash} from 'node:crypto'
+import {basename, join, resolve} from 'node:path'
+import {once} from 'node:events'
+import {createGunzip, createGzip} from 'node:zlib'
+import type {Readable, Writable} from 'node:stream'
+import {dynamodbRequest} from './dynamodb-client'
+import {DynamoDBLocalError} from './error'
+import {createTable, listTables, writeItems, type Item, type TableDefinition} from './seed'
+import {describeTable} from './snapshot'
+
+export const transferFormats = ['ndjson', 's3'] as const
+export type TransferFormat = typeof transferFormats[number]
+
+export interface ExportOptions {
+    /**
+     * `ndjson` writes a single file holding a `{"Table": {...}}` line per table followed by its
+     * `{"TableName": "...", "Item": {...}}` lines, which `seed` reads as fixtures too. `s3` writes a directory per table
+     * in the format of the DynamoDB export to S3, with gzipped DynamoDB JSON data files, plus the table definition
+     * in `table.json`. If you don't specify this option, the default is `ndjson`.
+     */
+    format?: TransferFormat
+    /**
+     * The tables to export. If you don't specify this option, every table is exported.
+     */
+    tables?: string[]
+    /**
+     * The number of segments of the parallel `Scan` of each table. If you don't specify this option, the default is `4`.
+     */
+    segments?: number
+}
+
+export interface ImportOptions {
+    /**
+     * The format of the source, see {@link ExportOptions.format}. If you don't specify this option,
+     * directories are read as `s3` exports and files as `ndjson`.
+     */
+    format?: TransferFormat
+    /**
+     * The tables to import. If you don't specify this option, every table of the source is imported.
+     */
+    tables?: string[]
+    /**
+     * The number of `BatchWriteItem` requests in flight. If you don't specify this option, the default is `4`.
+     */
+    concurrency?: number
+}
+
+export interface TransferResult {
+    /**
+     * The item count of each table, in the order the tables were transferred.
+     */
+    tables: Record<string, number>
+    items: number
+}
+
+function fileError(path: string, error: any) {
+    if (error instanceof DynamoDBLocalError) return error
+    return new DynamoDBLocalError('FILE_ERROR', `Unable to transfer ${path}: ${error.message}`, {path}, {cause: error})
+}
+
+function positiveInteger(value: number | undefined, option: string, fallback: number) {
+    if (value === undefined) return fallback
+    if (Number.isInteger(value) && value > 0) return value
+    throw new DynamoDBLocalError('INVALID_OPTION', `${option} must be a positive integer`, {option})
+}
+
+/**
+ * Writes `chunk`, waiting for `stream` to drain when its buffer is full.
+ */
+async function write(stream: Writable, chunk: string) {
+    if (!stream.write(chunk)) await once(stream, 'drain')
+}
+
+async function close(stream: WriteStream) {
+    // a stream that failed to open is already closed
+    if (stream.destroyed) return
+    stream.end()
+    await once(stream, 'close')
+}
+
+/**
+ * Yields the non empty lines of `stream` one at a time, reading no further than needed.
+ */
+async function* lines(stream: Readable) {
+    let rest = ''
+    for await (const chunk of stream) {
+        const parts = (rest + chunk).split(/\r?\n/)
+        rest = parts.pop()!
+        for (const line of parts) if (line.trim()) yield line
+    }
+
+    if (rest.trim()) yield rest
+}
+
+/**
+ * Scans `TableName` with `segments` parallel segments, handing every page to `onItems` as it arrives.
+ */
+async function parallelScan(endpoint: string, TableName: string, segments: number, onItems: (items: Item[], segment: number) => Promise<void>) {
+    await Promise.all(Array.from({length: segments}, async (_, Segment) => {
+        let ExclusiveStartKey: Item | undefined
+        do {
+            const output = await dynamodbRequest(endpoint, 'Scan', {TableName, Segment, TotalSegments: segments, ExclusiveStartKey})
+            await onItems(output.Items, Segment)
+            ExclusiveStartKey = output.LastEvaluatedKey
+        } while (ExclusiveStartKey)
+    }))
+}
+
+/**
+ * Streams the tables and items of the instance listening at `endpoint` to `path`, see {@link ExportOptions}.
+ */
+export async function exportTables(endpoint: string, path: string, {format = 'ndjson', tables, segments}: ExportOptions = {}) {
+    if (!transferFormats.includes(format)) throw new DynamoDBLocalError(
+        'INVALID_OPTION',
+        `Unknown format ${format}, expected one of ${transferFormats.join(', ')}`,
+        {option: 'format'}
+    )
+
+    const count = positiveInteger(segments, 'segments', 4)
+    const names = tables ?? await listTables(endpoint)
+    const result: TransferResult = {tables: {}, items: 0}
+    path = resolve(path)
+
+    if (format === 'ndjson') {
+        const stream = createWriteStream(path)
+        try {
+            await once(stream, 'open')
+            for (const TableName of names) {
+                await write(stream, JSON.stringify({Table: await describeTable(endpoint, TableName)}) + '\n')
+                result.tables[TableName] = 0
+                await parallelScan(endpoint, TableName, count, async items => {
+                    for (const Item of items) await write(stream, JSON.stringify({TableName, Item}) + '\n')
+                    result.tables[TableName] += items.length
+                })
+            }
+        }
+
+        catch (error) {
+            throw fileError(path, error)
+        }
+
+        finally {
+            await close(stream)
+        }
+    }
+
+    else for (const TableName of names) {
+        result.tables[TableName] = await exportS3(endpoint, TableName, join(path, TableName), count).catch(error => {
+            throw fileError(join(path, TableName), error)
+        })
+    }
+
+    result.items = Object.values(result.tables).reduce((sum, items) => sum + items, 0)
+    return result
+}
+
+/**
+ * Writes the export of one table in the layout of the DynamoDB export to S3: `manifest-summary.json`,
+ * `manifest-files.json` and one gzipped data file per segment under `data`.
+ */
+async function exportS3(endpoint: string, TableName: string, directory: string, segments: number) {
+    const startTime = new Date().toISOString()
+    const definition = await describeTable(endpoint, TableName)
+    const {Table} = await dynamodbRequest(endpoint, 'DescribeTable', {TableName})
+    await mkdir(join(directory, 'data'), {recursive: true})
+    await writeFile(join(directory, 'table.json'), JSON.stringify(definition, null, 4))
+
+    const files = Array.from({length: segments}, (_, segment) => {
+        const key = `data/segment-${segment}.json.gz`
+        const gzip = createGzip()
+        const file = createWriteStream(join(directory, key))
+        const md5 = createHash('md5')
+        gzip.on('data', chunk => md5.update(chunk))
+        gzip.pipe(file)
+        return {key, gzip, file, md5, items: 0}
+    })
+
+    try {
+        await parallelScan(endpoint, TableName, segments, async (items, segment) => {
+            const file = files[segment]
+            for (const Item of items) await write(file.gzip, JSON.stringify({Item}) + '\n')
+            file.items += items.length
+        })
+    }
+
+    finally {
+        await Promise.all(files.map(async ({gzip, file}) => {
+            gzip.end()
+            await once(file, 'close')
+        }))
+    }
+
+    const manifest = files.map(({key, md5, items}) => {
+        const checksum = md5.digest()
+        return JSON.stringify({itemCount: items, md5Checksum: checksum.toString('base64'), etag: checksum.toString('hex'), dataFileS3Key: key})
+    })
+
+    const itemCount = files.reduce((sum, {items}) => sum + items, 0)
+    await writeFile(join(directory, 'manifest-files.json'), manifest.join('\n') + '\n')
+    await writeFile(join(directory, 'manifest-summary.json'), JSON.stringify({
+        version: '2020-06-30',
+        startTime,
+        endTime: new Date().toISOString(),
+        exportTime: startTime,
+        tableArn: Table.TableArn,
+        itemCount,
+        manifestFilesS3Key: 'manifest-files.json',
+        outputFormat: 'DYNAMODB_JSON',
+        exportType: 'FULL_EXPORT'
+    }, null, 4))
+
+    return itemCount
+}
+
+/**
+ * Buffers items into batches of 25 written with `BatchWriteItem`, with at most `concurrency` batches in flight.
+ */
+class BatchWriter {
+    readonly #endpoint: string
+    readonly #concurrency: number
+    readonly #batches = new Map<string, Item[]>()
+    readonly #pending = new Set<Promise<void>>()
+
+    constructor(endpoint: string, concurrency: number) {
+        this.#endpoint = endpoint
+        this.#concurrency = concurrency
+    }
+
+    async put(TableName: string, item: Item) {
+        const batch = this.#batches.get(TableName) ?? []
+        batch.push(item)
+        this.#batches.set(TableName, batch)
+        if (batch.length === 25) await this.#flush(TableName)
+    }
+
+    async #flush(TableName: string) {
+        const items = this.#batches.get(TableName)
+        this.#batches.delete(TableName)
+        if (!items?.length) return
+
+        const request: Promise<void> = writeItems(this.#endpoint, TableName, items).finally(() => this.#pending.delete(request))
+        // rejections are awaited below or by close()
+        request.catch(() => {})
+        this.#pending.add(request)
+        if (this.#pending.size >= this.#concurrency) await Promise.race(this.#pending)
+    }
+
+    /**
+     * Writes the incomplete batches and waits for every request.
+     */
+    async close() {
+        for (const TableName of [...this.#batches.keys()]) await this.#flush(TableName)
+        await Promise.all(this.#pending)
+    }
+
+    /**
+     * Waits for the requests in flight without writing the incomplete batches.
+     */
+    async settle() {
+        await Promise.allSettled(this.#pending)
+    }
+}
+
+/**
+ * Streams the tables and items at `path` into the instance listening at `endpoint`, creating the missing tables.
+ * Items replace the existing ones with the same key.
+ */
+export async function importTables(endpoint: string, path: string, {format, tables, concurrency}: ImportOptions = {}) {
+    if (format !== undefined && !transferFormats.includes(format)) throw new DynamoDBLocalError(
+        'INVALID_OPTION',
+        `Unknown format ${format}, expected one of ${transferFormats.join(', ')}`,
+        {option: 'format'}
+    )
+
+    path = resolve(path)
+    const writer = new BatchWriter(endpoint, positiveInteger(concurrency, 'concurrency', 4))
+    const existing = new Set(await listTables(endpoint))
+    const result: TransferResult = {tables: {}, items: 0}
+    const included = (TableName: string) => !tables || tables.includes(TableName)
+
+    const ensureTable = async (definition: TableDefinition) => {
+        if (!existing.has(definition.TableName)) await createTable(endpoint, definition)
+        existing.add(definition.TableName)
+        result.tables[definition.TableName] ??= 0
+    }
+
+    const put = async (TableName: string, item: Item) => {
+        await writer.put(TableName, item)
+        result.tables[TableName] = (result.tables[TableName] ?? 0) + 1
+    }
+
+    try {
+        const isDirectory = (await stat(path)).isDirectory()
+        if ((format ?? (isDirectory ? 's3' : 'ndjson')) === 'ndjson') {
+            let number = 0
+            for await (const line of lines(createReadStream(path, 'utf8'))) {
+                number++
+                let record: any
+                try {record = JSON.parse(line)}
+                catch (error: any) {throw new Error(`line ${number} is not JSON: ${error.message}`)}
+
+                if (record?.Table && typeof record.Table.TableName === 'string') {
+                    if (included(record.Table.TableName)) await ensureTable(record.Table)
+                }
+
+                else if (typeof record?.TableName === 'string' && record.Item && typeof record.Item === 'object') {
+                    if (included(record.TableName)) await put(record.TableName, record.Item)
+                }
+
+                else throw new Error(`line ${number} is neither a {"Table"} nor a {"TableName", "Item"} object`)
+            }
+        }
+
+        else for (const directory of await findS3Exports(path)) {
+            const summary = JSON.parse(await readFile(join(directory, 'manifest-summary.json'), 'utf8'))
+            const definition: TableDefinition | undefined = await readFile(join(directory, 'table.json'), 'utf8')
+                .then(JSON.parse, () => undefined)
+
+            // exports made by DynamoDB have no table.json, their table must exist already
+            const TableName = definition?.TableName ?? String(summary.tableArn ?? '').split('/').pop()
+            if (!TableName) throw new Error(`${directory} names no table`)
+            if (!included(TableName)) continue
+            if (definition) await ensureTable(definition)
+            else result.tables[TableName] ??= 0
+
+            const manifest = await readFile(join(directory, summary.manifestFilesS3Key ? basename(summary.manifestFilesS3Key) : 'manifest-files.json'), 'utf8')
+            for (const line of manifest.split('\n').filter(line => line.trim())) {
+                const {dataFileS3Key} = JSON.parse(line)
+                const file = join(directory, 'data', basename(dataFileS3Key))
+                for await (const data of lines(createReadStream(file).pipe(createGunzip()))) {
+                    await put(TableName, JSON.parse(data).Item)
+                }
+            }
+        }
+
+        await writer.close()
+    }
+
+    catch (error) {
+        // the requests in flight must settle before the error is reported
+        await writer.settle()
+        throw fileError(path, error)
+    }
+
+    result.items = Object.values(result.tables).reduce((sum, items) => sum + items, 0)
+    return result
+}
+
+/**
+ * Finds the directories holding a `manifest-summary.json` under `path`, e.g. `AWSDynamoDB/{export id}` in a bucket copy.
+ */
+async function findS3Exports(path: string, depth = 3): Promise<string[]> {
+    const entries = await readdir(path, {withFileTypes: true})
+    if (entries.some(entry => entry.name === 'manifest-summary.json')) return [path]
+    if (!depth) return []
+
+    const found: string[] = []
+    for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        found.push(...await findS3Exports(join(path, entry.name), depth - 1))
+    }
+
+    return found
+}
@@ -0,0 +1,21 @@
+import {setupDynamoDBLocal, teardownDynamoDBLocal, type TestEnvironmentOptions} from './test-environment'
+
+/**
+ * Creates a Vitest `globalSetup` function starting DynamoDB with the given options:
+ * ```js
+ * // dynamodb.setup.js, referenced from `test.globalSetup` in vitest.config.js
+ * import {createGlobalSetup} from '@asn.aeb/dynamodb-local/vitest-global-setup'
+ * export default createGlobalSetup({sharedDB: true})
+ * ```
+ */
+export function createGlobalSetup(options?: TestEnvironmentOptions) {
+    return async function setup() {
+        await setupDynamoDBLocal(options)
+        return teardownDynamoDBLocal
+    }
+}
+
+/**
+ * Vitest `globalSetup` module using the default options.
+ */
+export default createGlobalSetup()
@@ -0,0 +1,44 @@
+import {setTimeout as sleep} from 'node:timers/promises'
+import {dynamodbRequest} from './dynamodb-client'
+
+export interface ReadinessOptions {
+    /**
+     * The maximum time in milliseconds to wait for DynamoDB to answer requests after the process
+     * has been spawned. If you don't specify this option, the default is `30000`.
+     */
+    startTimeout?: number
+    /**
+     * The time in milliseconds between two consecutive readiness checks.
+     * If you don't specify this option, the default is `100`.
+     */
+    retryInterval?: number
+    /**
+     * An `AbortSignal` that cancels the startup. When aborted, the DynamoDB process is terminated.
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * Polls `ListTables` against `endpoint` until DynamoDB answers. Resolves to `true` when DynamoDB is ready
+ * or to `false` when the deadline passes or `signal` is aborted first.
+ */
+export async function waitForDynamoDB(endpoint: string, {startTimeout = 30000, retryInterval = 100, signal}: ReadinessOptions = {}) {
+    const deadline = Date.now() + startTimeout
+
+    while (!signal?.aborted) {
+        const remaining = deadline - Date.now()
+        if (remaining <= 0) return false
+
+        try {
+            await dynamodbRequest(endpoint, 'ListTables', {Limit: 1}, {signal, timeout: remaining})
+            return true
+        }
+
+        catch {}
+
+        try {await sleep(Math.min(retryInterval, Math.max(deadline - Date.now(), 0)), undefined, {signal})}
+        catch {}
+    }
+
+    return false
+}
@@ -0,0 +1,278 @@
+import {watch, type FSWatcher} from 'node:fs'
+import {stat} from 'node:fs/promises'
+import {basename, dirname, relative, resolve} from 'node:path'
+import {dynamodbRequest} from './dynamodb-client'
+import {DynamoDBLocalError} from './error'
+import {createTable, listTables, loadFixtures, loadTables, waitForTable, writeItems, type Fixtures, type Item, type SeedOptions, type TableDefinition} from './seed'
+import {deleteTable} from './tables'
+import type {Reporter} from './reporter'
+
+export interface WatchOptions {
+    /**
+     * Files to watch while the instance runs, on top of the `tables` and `fixtures` files, which must be paths.
+     * On a change, the definitions are compared with the running tables: tables whose keys or local indexes changed
+     * are recreated, global indexes and time to live are updated, tables removed from the schema are deleted, and
+     * the fixtures of the tables that changed are written again. Not available with `detach`.
+     */
+    watch?: string[]
+}
+
+/**
+ * What `reseed()` did to a table.
+ */
+export interface SeedChange {
+    table: string
+    action: 'created' | 'recreated' | 'updated' | 'deleted' | 'reloaded'
+    /**
+     * Why the table was recreated or what was updated, e.g. `key schema changed`.
+     */
+    reason?: string
+    /**
+     * The number of fixture items written.
+     */
+    items?: number
+}
+
+export interface LoadedSeed {
+    tables: TableDefinition[]
+    fixtures: Fixtures
+}
+
+type KeySchema = TableDefinition['KeySchema']
+
+function sameKeys(a: KeySchema = [], b: KeySchema = []) {
+    return a.length === b.length && a.every((key, i) => key.AttributeName === b[i].AttributeName && key.KeyType === b[i].KeyType)
+}
+
+function indexes(list: {IndexName: string, KeySchema: KeySchema, Projection?: {ProjectionType?: string}}[] = []) {
+    return new Map(list.map(index => [index.IndexName, index]))
+}
+
+/**
+ * Why the table described by `current` must be recreated to match `definition`, if it must.
+ */
+function recreateReason(current: any, definition: TableDefinition) {
+    if (!sameKeys(current.KeySchema, definition.KeySchema)) return 'key schema changed'
+
+    const types = new Map<string, string>(current.AttributeDefinitions.map((a: any) => [a.AttributeName, a.AttributeType]))
+    const keyAttributes = [definition.KeySchema, ...(definition.LocalSecondaryIndexes ?? []).map(index => index.KeySchema)]
+        .flat().map(key => key.AttributeName)
+    const changed = definition.AttributeDefinitions.find(a => keyAttributes.includes(a.AttributeName) && types.get(a.AttributeName) !== a.AttributeType)
+    if (changed) return `type of ${changed.AttributeName} changed`
+
+    const before = indexes(current.LocalSecondaryIndexes)
+    const after = indexes(definition.LocalSecondaryIndexes)
+    if (before.size !== after.size || [...after].some(([name, index]) => !sameKeys(before.get(name)?.KeySchema, index.KeySchema))) {
+        return 'local indexes changed'
+    }
+
+    // global indexes can be added and removed, but not changed
+    const globals = indexes(current.GlobalSecondaryIndexes)
+    for (const index of definition.GlobalSecondaryIndexes ?? []) {
+        const existing = globals.get(index.IndexName)
+        if (!existing) continue
+        const projection = (existing.Projection?.ProjectionType ?? 'ALL') !== (index.Projection?.ProjectionType ?? 'ALL')
+        if (!sameKeys(existing.KeySchema, index.KeySchema) || projection) return `global index ${index.IndexName} changed`
+    }
+}
+
+/**
+ * Adds and removes the global indexes and updates the time to live of the table described by `current`.
+ * Resolves with what was updated.
+ */
+async function updateTable(endpoint: string, current: any, definition: TableDefinition) {
+    const {TableName} = definition
+    const updates: string[] = []
+    const before = indexes(current.GlobalSecondaryIndexes)
+    const after = indexes(definition.GlobalSecondaryIndexes)
+
+    // one index per request, as DynamoDB requires
+    for (const IndexName of before.keys()) if (!after.has(IndexName)) {
+        await dynamodbRequest(endpoint, 'UpdateTable', {TableName, GlobalSecondaryIndexUpdates: [{Delete: {IndexName}}]})
+        await waitForTable(endpoint, TableName)
+        updates.push(`removed index ${IndexName}`)
+    }
+
+    for (const index of definition.GlobalSecondaryIndexes ?? []) if (!before.has(index.IndexName)) {
+        const provisioned = current.BillingModeSummary?.BillingMode !== 'PAY_PER_REQUEST'
+        const Create = {
+            ...index,
+            ProvisionedThroughput: provisioned ? index.ProvisionedThroughput ?? {ReadCapacityUnits: 5, WriteCapacityUnits: 5} : undefined
+        }
+
+        await dynamodbRequest(endpoint, 'UpdateTable', {TableName, AttributeDefinitions: definition.AttributeDefinitions, GlobalSecondaryIndexUpdates: [{Create}]})
+        await waitForTable(endpoint, TableName)
+        updates.push(`added index ${index.IndexName}`)
+    }
+
+    const {TimeToLiveDescription: ttl} = await dynamodbRequest(endpoint, 'DescribeTimeToLive', {TableName})
+    const enabled = ttl.TimeToLiveStatus === 'ENABLED' ? ttl.AttributeName as string : undefined
+    const wanted = definition.TimeToLiveSpecification?.Enabled ? definition.TimeToLiveSpecification.AttributeName : undefined
+    if (enabled !== wanted) {
+        // time to live must be disabled before it is enabled on another attribute
+        if (enabled) await dynamodbRequest(endpoint, 'UpdateTimeToLive', {TableName, TimeToLiveSpecification: {AttributeName: enabled, Enabled: false}})
+        if (wanted) await dynamodbRequest(endpoint, 'UpdateTimeToLive', {TableName, TimeToLiveSpecification: {AttributeName: wanted, Enabled: true}})
+        updates.push(wanted ? `time to live on ${wanted}` : 'time to live disabled')
+    }
+
+    return updates
+}
+
+/**
+ * Applies `next` to the instance at `endpoint`, where `previous` was applied before, and resolves with what changed.
+ */
+export async function reseed(endpoint: string, previous: LoadedSeed, next: LoadedSeed) {
+    const changes: SeedChange[] = []
+    const existing = await listTables(endpoint)
+    const defined = new Set(next.tables.map(({TableName}) => TableName))
+    // the tables whose fixtures must all be written again
+    const fresh = new Set<string>()
+    const deleted = new Set<string>()
+
+    for (const {TableName} of previous.tables) {
+        if (defined.has(TableName) || !existing.includes(TableName)) continue
+        await deleteTable(endpoint, TableName)
+        changes.push({table: TableName, action: 'deleted'})
+        deleted.add(TableName)
+    }
+
+    for (const definition of next.tables) {
+        const {TableName} = definition
+        if (!existing.includes(TableName)) {
+            await createTable(endpoint, definition)
+            changes.push({table: TableName, action: 'created'})
+            fresh.add(TableName)
+            continue
+        }
+
+        const {Table} = await dynamodbRequest(endpoint, 'DescribeTable', {TableName})
+        const reason = recreateReason(Table, definition)
+        if (reason) {
+            await deleteTable(endpoint, TableName)
+            await createTable(endpoint, definition)
+            changes.push({table: TableName, action: 'recreated', reason})
+            fresh.add(TableName)
+            continue
+        }
+
+        const updates = await updateTable(endpoint, Table, definition)
+        if (updates.length) changes.push({table: TableName, action: 'updated', reason: updates.join(', ')})
+    }
+
+    for (const table of new Set([...Object.keys(previous.fixtures), ...Object.keys(next.fixtures)])) {
+        const before = previous.fixtures[table] ?? []
+        const after = next.fixtures[table] ?? []
+        if (deleted.has(table) || !fresh.has(table) && JSON.stringify(before) === JSON.stringify(after)) continue
+
+        if (!fresh.has(table) && before.length) {
+            // the items removed from the fixtures are removed from the table
+            const {Table} = await dynamodbRequest(endpoint, 'DescribeTable', {TableName: table})
+            const key = (item: Item) => JSON.stringify(Table.KeySchema.map(({AttributeName}: {AttributeName: string}) => item[AttributeName]))
+            const kept = new Set(after.map(key))
+            for (const item of before) if (!kept.has(key(item))) {
+                const Key = Object.fromEntries(Table.KeySchema.map(({AttributeName}: {AttributeName: string}) => [AttributeName, item[AttributeName]]))
+                await dynamodbRequest(endpoint, 'DeleteItem', {TableName: table, Key})
+            }
+        }
+
+        await writeItems(endpoint, table, after)
+        const change = changes.find(change => change.table === table)
+        if (change) change.items = after.length
+        else changes.push({table, action: 'reloaded', items: after.length})
+    }
+
+    return changes
+}
+
+/**
+ * Loads the schema and fixtures files again, bypassing the cache of modules.
+ */
+export async function reloadSeed({tables, fixtures}: SeedOptions): Promise<LoadedSeed> {
+    return {
+        tables: tables ? await loadTables(tables, true) : [],
+        fixtures: fixtures ? await loadFixtures(fixtures, true) : {}
+    }
+}
+
+function describe({table, action, reason, items}: SeedChange) {
+    return `${action} table ${table}` + (reason ? `: ${reason}` : '') + (items !== undefined ? `, ${items} item(s)` : '')
+}
+
+/**
+ * Watches `files`, then reloads `seed` and applies it to the instance at `endpoint` on every change, starting from
+ * `loaded`, what was applied at startup. Reports through `reporter`. Files are watched through their directory,
+ * as editors often replace them instead of writing them.
+ */
+export async function watchSeed(endpoint: string, files: string[], seed: SeedOptions, loaded: LoadedSeed, reporter: Reporter) {
+    const watchers: FSWatcher[] = []
+    const directories = new Map<string, Set<string> | undefined>()
+    for (const file of files.map(file => resolve(file))) {
+        const directory = await stat(file).then(stats => stats.isDirectory(), () => false)
+        if (directory) directories.set(file, undefined)
+        else if (directories.has(dirname(file))) directories.get(dirname(file))?.add(basename(file))
+        else directories.set(dirname(file), new Set([basename(file)]))
+    }
+
+    let applied = loaded
+    let timer: NodeJS.Timeout | undefined
+    let running: Promise<void> | undefined
+    let pending: string | undefined
+
+    const apply = async (file: string) => {
+        reporter.info(`${relative(process.cwd(), file) || file} changed, applying the schema and fixtures again`)
+        try {
+            const next = await reloadSeed(seed)
+            const changes = await reseed(endpoint, applied, next)
+            applied = next
+            if (!changes.length) reporter.info('no table changed')
+            changes.forEach(change => reporter.success(describe(change)))
+        }
+
+        catch (error: any) {
+            const code = error instanceof DynamoDBLocalError ? error.code : 'SEED_FAILED'
+            reporter.error(code, error.message)
+        }
+    }
+
+    // changes made while applying are applied once it is done
+    const run = (file: string) => {
+        if (running) {
+            pending = file
+            return
+        }
+
+        running = apply(file).finally(() => {
+            const next = pending
+            running = undefined
+            pending = undefined
+            if (next) run(next)
+        })
+    }
+
+    const close = () => {
+        clearTimeout(timer)
+        watchers.forEach(watcher => watcher.close())
+    }
+
+    try {
+        for (const [directory, names] of directories) {
+            const watcher = watch(directory, (_, filename) => {
+                const name = filename?.toString()
+                if (names && (!name || !names.has(name))) return
+                clearTimeout(timer)
+                // editors write in several steps
+                timer = setTimeout(() => run(resolve(directory, name ?? '')), 100)
+            })
+
+            watcher.on('error', error => reporter.error('FILE_ERROR', `Stopped watching ${directory}: ${error.message}`))
+            watchers.push(watcher)
+        }
+    }
+
+    catch (error: any) {
+        close()
+        throw new DynamoDBLocalError('FILE_ERROR', `Unable to watch ${error.path ?? 'the files'}: ${error.message}`, {path: error.path ?? ''}, {cause: error})
+    }
+
+    return {close}
+}
@@ -0,0 +1,68 @@
+import {createServer, request} from 'node:http'
+import {once} from 'node:events'
+import {setTimeout} from 'node:timers/promises'
+import {strict as assert} from 'node:assert'
+import {AdminUI} from '../lib/admin-ui.js'
+
+// answers ListTables, and fails every other operation as DynamoDB does
+const server = createServer((req, res) => {
+    const operation = String(req.headers['x-amz-target']).split('.')[1]
+    req.resume().on('end', () => {
+        if (operation === 'ListTables') return res.end(JSON.stringify({TableNames: ['users']}))
+        res.writeHead(400).end(JSON.stringify({__type: 'com.amazonaws.dynamodb.v20120810#ResourceNotFoundException', message: 'Cannot do operations on a non-existent table'}))
+    })
+}).listen(0)
+
+// fetch is not available before Node.js 18
+async function send(url: string, body?: string, headers: Record<string, string> = {}) {
+    const type = body === undefined ? {} : {'Content-Type': 'application/json'}
+    const req = request(url, {method: body === undefined ? 'GET' : 'POST', headers: {...type, ...headers}}).end(body)
+    const [res] = await once(req, 'response')
+    let text = ''
+    for await (const chunk of res) text += chunk
+    return {status: res.statusCode, text, json: () => JSON.parse(text)}
+}
+
+await once(server, 'listening')
+const ui = await AdminUI.start(`http://localhost:${(server.address() as any).port}`)
+
+const page = await send(ui.url)
+assert.equal(page.status, 200)
+assert.match(page.text, /<title>DynamoDB Local<\/title>/)
+console.log('ok - serves the page')
+
+const tables = await send(`${ui.url}/api/ListTables`, '{}')
+assert.deepEqual(tables.json(), {TableNames: ['users']})
+const missing = await send(`${ui.url}/api/DescribeTable`, '{"TableName": "nope"}')
+assert.equal(missing.status, 400)
+assert.equal(missing.json().type, 'ResourceNotFoundException')
+console.log('ok - proxies operations and their errors')
+
+const forbidden = await send(`${ui.url}/api/DeleteTable`, '{"TableName": "users"}')
+assert.equal(forbidden.status, 403)
+console.log('ok - refuses operations the page does not use')
+
+// what another web page can send without a preflight, and what DNS rebinding sends
+const simple = await send(`${ui.url}/api/PutItem`, '{"TableName": "users"}', {'Content-Type': 'text/plain'})
+assert.equal(simple.status, 415)
+const origin = await send(`${ui.url}/api/ListTables`, '{}', {'Origin': 'http://evil.example'})
+assert.equal(origin.status, 403)
+const rebound = await send(`${ui.url}/api/ListTables`, '{}', {'Host': `evil.example:${ui.port}`})
+assert.equal(rebound.status, 403)
+assert.equal((await send(`${ui.url}/api/ListTables`, '{}', {'Origin': ui.url})).status, 200)
+console.log('ok - refuses requests from other origins and hosts')
+
+const aborted = request(`${ui.url}/api/ListTables`, {method: 'POST', headers: {'Content-Type': 'application/json', 'Content-Length': 100}})
+aborted.on('error', () => {})
+aborted.write('{')
+await setTimeout(100)
+aborted.destroy()
+await setTimeout(100)
+assert.equal((await send(`${ui.url}/api/ListTables`, '{}')).status, 200)
+console.log('ok - keeps serving when a client aborts a request')
+
+await assert.rejects(AdminUI.start(ui.endpoint, ui.port), {code: 'PORT_IN_USE'})
+console.log('ok - rejects a port in use')
+
+await ui.close()
+server.close()
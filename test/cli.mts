@@ -0,0 +1,186 @@
+import {createServer} from 'node:http'
+import {once} from 'node:events'
+import {mkdtemp, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {defineCommand, exitCodes, formatHelp, parseArguments, suggest} from '../lib/cli-parser.js'
+import {commands, run} from '../lib/cli.js'
+
+const command = defineCommand({
+    name: 'start',
+    summary: 'Starts DynamoDB',
+    options: {
+        port: {type: 'port', short: 'p', description: 'The port'},
+        inMemory: {type: 'boolean', short: 'm', description: 'Runs in memory'},
+        sharedDB: {type: 'boolean', aliases: ['sharedDb'], description: 'Uses a single database file'},
+        cors: {type: 'list', description: 'The allowed origins'},
+        tables: {type: 'string', flag: 'schema', description: 'The schema file'},
+        jvmArgs: {type: 'string', flag: 'jvmArg', multiple: true, description: 'A JVM argument'}
+    },
+    async run() {}
+})
+
+assert.deepEqual(
+    parseArguments(['--port', '3000', '-m', '--cors=a.com,b.com', '--schema=tables.yaml', 'name'], command),
+    {options: {port: 3000, inMemory: true, cors: ['a.com', 'b.com'], tables: 'tables.yaml'}, positionals: ['name'], help: false}
+)
+
+assert.deepEqual(parseArguments(['-p=auto', '--sharedDb', '--jvmArg=-Xmx1g', '--jvmArg', '-1'], command).options, {
+    port: 'auto',
+    sharedDB: true,
+    jvmArgs: ['-Xmx1g', '-1']
+})
+
+assert.equal(parseArguments(['-h'], command).help, true)
+console.log('ok - parses both value forms, short aliases, lists and repeated options')
+
+assert.throws(() => parseArguments(['--prot=3000'], command), {code: 'INVALID_ARGUMENT', message: /--prot.*did you mean.*--port/})
+assert.throws(() => parseArguments(['--port=abc'], command), {code: 'INVALID_ARGUMENT', message: /integer/})
+assert.throws(() => parseArguments(['--port'], command), {code: 'INVALID_ARGUMENT', message: /expects a value/})
+assert.throws(() => parseArguments(['--inMemory=yes'], command), {code: 'INVALID_ARGUMENT'})
+assert.equal(suggest('--wrongflag', ['--port', '--cors']), undefined)
+console.log('ok - rejects unknown flags and invalid values')
+
+assert.match(formatHelp(command), /--sharedDB/)
+assert.match(formatHelp(command), /--schema/)
+console.log('ok - generates the help of a command')
+
+for (const command of commands) {
+    const flags = Object.entries(command.options).flatMap(([name, spec]) => [spec.flag ?? name, ...spec.aliases ?? []])
+    assert.equal(new Set(flags).size, flags.length, `duplicate flag in ${command.name}`)
+}
+
+const log = console.log
+const error = console.error
+console.log = console.error = () => {}
+try {
+    assert.equal(await run([]), exitCodes.usage)
+    assert.equal(await run(['start', '--help']), exitCodes.success)
+    assert.equal(await run(['strat']), exitCodes.usage)
+    assert.equal(await run(['start', '--prot=3000']), exitCodes.usage)
+    assert.equal(await run(['seed', '--port=8000']), exitCodes.usage)
+    assert.equal(await run(['query', 'users', '--port=8000']), exitCodes.usage)
+    assert.equal(await run(['tables', 'create', 'users', '--key=id:X', '--port=8000']), exitCodes.usage)
+}
+
+finally {
+    console.log = log
+    console.error = error
+}
+
+console.log('ok - returns the exit codes of the CLI')
+
+// just enough of DynamoDB for the data commands, with items keyed by their id
+const tables = new Map<string, {definition: any, items: Map<string, any>}>()
+const operations: Record<string, (input: any) => object> = {
+    ListTables: () => ({TableNames: [...tables.keys()]}),
+    CreateTable: input => {
+        tables.set(input.TableName, {definition: input, items: new Map()})
+        return {}
+    },
+    DescribeTable: ({TableName}) => ({Table: {...tables.get(TableName)!.definition, TableStatus: 'ACTIVE', ItemCount: tables.get(TableName)!.items.size}}),
+    Scan: ({TableName, Limit}) => {
+        const Items = [...tables.get(TableName)!.items.values()].slice(0, Limit)
+        return {Items, Count: Items.length, ScannedCount: Items.length}
+    },
+    GetItem: ({TableName, Key}) => ({Item: tables.get(TableName)!.items.get(Key.id.S)}),
+    PutItem: ({TableName, Item}) => {
+        tables.get(TableName)!.items.set(Item.id.S, Item)
+        return {}
+    },
+    BatchWriteItem: ({RequestItems}) => {
+        for (const [TableName, requests] of Object.entries<any[]>(RequestItems)) {
+            for (const {PutRequest} of requests) tables.get(TableName)!.items.set(PutRequest.Item.id.S, PutRequest.Item)
+        }
+
+        return {UnprocessedItems: {}}
+    }
+}
+
+const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+        const input = JSON.parse(body)
+        if (input.TableName && !tables.has(input.TableName) && !String(req.headers['x-amz-target']).endsWith('CreateTable')) {
+            res.statusCode = 400
+            return res.end(JSON.stringify({__type: 'com.amazonaws.dynamodb.v20120810#ResourceNotFoundException', message: 'Cannot do operations on a non-existent table'}))
+        }
+
+        res.end(JSON.stringify(operations[String(req.headers['x-amz-target']).split('.')[1]](input)))
+    })
+}).listen(0)
+
+await once(server, 'listening')
+const port = `--port=${(server.address() as any).port}`
+
+// runs the CLI with the plain reporter, resolving with its exit code and the lines it wrote to stdout and stderr
+async function cli(...argv: string[]) {
+    const stdout: string[] = []
+    const stderr: string[] = []
+    console.log = (line: string) => stdout.push(...line.split('\n'))
+    console.error = (line: string) => stderr.push(...line.split('\n'))
+    try {
+        const code = await run([...argv, '--reporter=plain'])
+        return {code, stdout, stderr}
+    }
+
+    finally {
+        console.log = log
+        console.error = error
+    }
+}
+
+const json = (lines: string[]) => JSON.parse(lines.join('\n'))
+const rows = (lines: string[]) => lines.filter(line => line.includes('│')).map(line => line.split('│').map(cell => cell.trim()))
+
+let result = await cli('tables', 'create', 'users', '--key=id:S', port)
+assert.equal(result.code, exitCodes.success)
+assert.match(result.stdout[0], /created table users/i)
+assert.deepEqual(tables.get('users')!.definition.KeySchema, [{AttributeName: 'id', KeyType: 'HASH'}])
+
+result = await cli('tables', 'list', port)
+assert.deepEqual(rows(result.stdout), [['Table', 'Status', 'Items', 'Keys'], ['users', 'ACTIVE', '0', 'id']])
+assert.deepEqual(json((await cli('tables', 'list', '--json', port)).stdout), {TableNames: ['users']})
+assert.equal(json((await cli('tables', 'describe', 'users', '--json', port)).stdout).Table.TableName, 'users')
+console.log('ok - creates, lists and describes tables')
+
+result = await cli('put', 'users', '--item={"id": {"S": "1"}, "name": {"S": "Ann"}}', port)
+assert.equal(result.code, exitCodes.success)
+assert.match(result.stdout[0], /item written to users/i)
+await cli('put', 'users', '--item={"id": {"S": "2"}, "age": {"N": "30"}}', port)
+
+result = await cli('scan', 'users', port)
+assert.deepEqual(rows(result.stdout), [['id', 'age', 'name'], ['1', '-', 'Ann'], ['2', '30', '-']])
+assert.match(result.stdout.at(-1)!, /2 item\(s\)/)
+assert.equal(json((await cli('scan', 'users', '--json', '--limit=1', port)).stdout).Count, 1)
+console.log('ok - writes and scans items')
+
+assert.deepEqual(json((await cli('get', 'users', '--key={"id": {"S": "1"}}', '--json', port)).stdout), {Item: {id: {S: '1'}, name: {S: 'Ann'}}})
+result = await cli('get', 'users', '--key={"id": {"S": "3"}}', port)
+assert.equal(result.code, exitCodes.failure)
+assert.match(result.stdout[0], /No item found/i)
+console.log('ok - gets items, failing when there is none')
+
+result = await cli('scan', 'missing', port)
+assert.equal(result.code, exitCodes.failure)
+assert.deepEqual(result.stdout, [])
+assert.match(result.stderr.join('\n'), /ResourceNotFoundException.*non-existent table/i)
+result = await cli('get', 'users', '--key={id}', port)
+assert.equal(result.code, exitCodes.usage)
+assert.match(result.stderr.join('\n'), /--key.*expects JSON/)
+console.log('ok - reports errors on stderr')
+
+// the background instance of the install directory, as recorded by start --detach
+const path = await mkdtemp(join(tmpdir(), 'dynamodb-local-cli-'))
+const endpoint = `http://localhost:${(server.address() as any).port}`
+await writeFile(join(path, 'DynamoDBLocal_state.json'), JSON.stringify({pid: process.pid, port: (server.address() as any).port, endpoint, logFile: '', startedAt: ''}))
+const schema = join(path, 'tables.json')
+await writeFile(schema, JSON.stringify({TableName: 'orders', KeySchema: [{AttributeName: 'id', KeyType: 'HASH'}], AttributeDefinitions: [{AttributeName: 'id', AttributeType: 'S'}]}))
+result = await cli('seed', `--path=${path}`, `--schema=${schema}`, '--config=false')
+assert.equal(result.code, exitCodes.success, result.stderr.join('\n'))
+assert.ok(tables.has('orders'))
+console.log('ok - seeds the instance running in the background from --path')
+
+server.close()
@@ -0,0 +1,59 @@
+import {mkdtemp, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {loadConfig, readConfigFile, readEnvironment, withConfig} from '../lib/config.js'
+import {environmentVariables} from '../lib/test-environment.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-config-'))
+
+await writeFile(join(root, 'package.json'), JSON.stringify({name: 'app', 'dynamodb-local': {port: 8001, inMemory: true}}))
+assert.deepEqual(await readConfigFile(undefined, root), {port: 8001, inMemory: true})
+console.log('ok - reads the dynamodb-local key of package.json')
+
+await writeFile(join(root, 'dynamodb-local.config.mjs'), 'export default {port: 8002, cors: ["a.com"]}')
+assert.deepEqual(await readConfigFile(undefined, root), {port: 8002, cors: ['a.com']})
+console.log('ok - prefers a configuration file over package.json')
+
+assert.deepEqual(readEnvironment({
+    DYNAMODB_LOCAL_PORT: 'auto',
+    DYNAMODB_LOCAL_SHARED_DB: '1',
+    DYNAMODB_LOCAL_CORS: 'a.com, b.com',
+    DYNAMODB_LOCAL_JVM_ARGS: '-Xmx1g  -Dfoo=a,b',
+    DYNAMODB_LOCAL_CACHE: 'false',
+    DYNAMODB_LOCAL_DB_PATH: ''
+}), {port: 'auto', sharedDB: true, cors: ['a.com', 'b.com'], jvmArgs: ['-Xmx1g', '-Dfoo=a,b'], cache: false})
+
+assert.throws(() => readEnvironment({DYNAMODB_LOCAL_IN_MEMORY: 'yes'}), {code: 'INVALID_OPTION', message: /DYNAMODB_LOCAL_IN_MEMORY/})
+assert.throws(() => readEnvironment({DYNAMODB_LOCAL_PORT: '80a'}), {code: 'INVALID_OPTION'})
+console.log('ok - reads and validates environment variables')
+
+assert.deepEqual(readEnvironment({
+    [environmentVariables.endpoint]: 'http://localhost:53017',
+    [environmentVariables.port]: '53017',
+    [environmentVariables.sdkEndpoint]: 'http://localhost:53017'
+}), {})
+console.log('ok - ignores the variables set for test workers')
+
+const file = join(root, 'custom.json')
+await writeFile(file, JSON.stringify({port: 8003, sharedDB: true, dbPath: 'db'}))
+process.env.DYNAMODB_LOCAL_PORT = '8004'
+process.env.DYNAMODB_LOCAL_SHARED_DB = 'false'
+assert.deepEqual(await withConfig({config: file, dbPath: 'other'}, ['port', 'sharedDB', 'dbPath']), {
+    config: file,
+    port: 8004,
+    sharedDB: false,
+    dbPath: 'other'
+})
+
+assert.deepEqual(await withConfig({config: file}, ['dbPath']), {config: file, dbPath: 'db'})
+assert.deepEqual(await loadConfig({config: false}), {})
+delete process.env.DYNAMODB_LOCAL_PORT
+delete process.env.DYNAMODB_LOCAL_SHARED_DB
+console.log('ok - gives flags precedence over the environment, and the environment over the file')
+
+await writeFile(file, JSON.stringify({prot: 8000}))
+await assert.rejects(readConfigFile(file), {code: 'INVALID_OPTION', message: /Unknown option prot .* did you mean port/})
+await writeFile(file, JSON.stringify({cors: 'a.com'}))
+await assert.rejects(readConfigFile(file), {code: 'INVALID_OPTION', message: /cors .* must be an array of strings/})
+console.log('ok - rejects unknown options and values of the wrong type')
@@ -0,0 +1,82 @@
+import {spawn, spawnSync} from 'node:child_process'
+import {access, mkdtemp, mkdir, readFile, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+import {isAlive} from '../lib/kill-tree.js'
+import {DetachedInstance} from '../lib/daemon.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-detach-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+// serves ListTables on -port until terminated
+const java = join(root, 'java')
+await writeFile(java, `#!${process.execPath}
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+require('http').createServer((req, res) => res.end('{"TableNames":[]}')).listen(Number(args[args.indexOf('-port') + 1]))
+console.log('Initializing DynamoDB Local')
+process.on('SIGTERM', () => process.exit(0))
+`, {mode: 0o755})
+
+const state = join(path, 'DynamoDBLocal_state.json')
+const exists = (file: string) => access(file).then(() => true, () => false)
+const options = {port: 'auto', inMemory: true, install: false, config: false, javaPath: java} as const
+
+const instance = await new DynamoDBLocal(path).start({...options, detach: true})
+// the process outlives this one when an assertion fails
+process.on('exit', () => instance.running && process.kill(instance.pid, 'SIGKILL'))
+assert.ok(instance.running)
+const recorded = JSON.parse(await readFile(state, 'utf8'))
+assert.equal(recorded.pid, instance.pid)
+assert.ok(recorded.startTime)
+assert.equal(instance.logFile, join(path, 'DynamoDBLocal.log'))
+assert.match(await readFile(instance.logFile, 'utf8'), /Initializing DynamoDB Local/)
+console.log('ok - starts DynamoDB in the background and records it in the state file')
+
+// another process, e.g. the next CLI call, only has the install path
+const other = new DynamoDBLocal(path)
+const status = await other.status()
+assert.deepEqual([status?.pid, status?.port, status?.ready], [instance.pid, instance.port, true])
+assert.equal((await other.attach()).endpoint, instance.endpoint)
+await assert.rejects(other.start(options), {code: 'ALREADY_RUNNING'})
+console.log('ok - reports and attaches to the running process from another builder')
+
+assert.deepEqual(await other.stop(), {code: null, signal: 'SIGTERM'})
+assert.equal(isAlive(instance.pid), false)
+assert.equal(await exists(state), false)
+assert.equal(await other.status(), undefined)
+await assert.rejects(other.stop(), {code: 'NOT_RUNNING'})
+console.log('ok - stops the process and removes the state file')
+
+// a process that died without being stopped leaves its state file behind
+const {pid} = spawnSync(process.execPath, ['-e', ''])
+await writeFile(state, JSON.stringify({pid, port: 1, endpoint: 'http://localhost:1', logFile: '', startedAt: ''}))
+assert.equal(await other.status(), undefined)
+assert.equal(await exists(state), false)
+await writeFile(state, JSON.stringify({pid, port: 1, endpoint: 'http://localhost:1', logFile: '', startedAt: ''}))
+await assert.rejects(other.attach(), {code: 'NOT_RUNNING'})
+assert.equal(await exists(state), false)
+console.log('ok - cleans up the state file of a process that is gone')
+
+// after a reboot, the pid may belong to another process, which must be left alone
+const unrelated = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'])
+const reused = {pid: unrelated.pid!, port: 1, endpoint: 'http://localhost:1', logFile: '', startedAt: ''}
+await writeFile(state, JSON.stringify({...reused, startTime: 'Thu Jan  1 00:00:00 1970'}))
+assert.equal(await other.status(), undefined)
+assert.equal(await exists(state), false)
+// without a start time, the endpoint must answer
+await writeFile(state, JSON.stringify(reused))
+await assert.rejects(other.stop(), {code: 'NOT_RUNNING'})
+assert.deepEqual(await new DetachedInstance(path, {...reused, startTime: 'Thu Jan  1 00:00:00 1970'}).stop(), {code: null, signal: null})
+assert.ok(isAlive(unrelated.pid!))
+unrelated.kill()
+console.log('ok - leaves alone a process that reused the recorded pid')
@@ -0,0 +1,59 @@
+import {mkdtemp, readFile, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-docker-'))
+const calls = join(root, 'calls.ndjson')
+const docker = join(root, 'docker')
+
+// records its arguments, and serves ListTables on the published port of `docker run` until terminated
+await writeFile(docker, `#!${process.execPath}
+const args = process.argv.slice(2)
+require('fs').appendFileSync(${JSON.stringify(calls)}, JSON.stringify(args) + '\\n')
+if (args[0] === 'version') console.log('24.0.7')
+if (args[0] === 'run') {
+    const port = Number(args[args.indexOf('--publish') + 1].split(':')[0])
+    require('http').createServer((req, res) => res.end('{"TableNames":[]}')).listen(port)
+    process.on('SIGTERM', () => process.exit(0))
+}
+`, {mode: 0o755})
+
+const dbPath = join(root, 'db')
+const ddb = new DynamoDBLocal(join(root, 'install'))
+const instance = await ddb.start({
+    runtime: 'docker',
+    dockerPath: docker,
+    version: '2.0.0',
+    port: 'auto',
+    dbPath,
+    sharedDB: true,
+    cors: ['http://localhost:3000'],
+    jvmArgs: ['-Xmx1g'],
+    config: false
+})
+
+const log = (await readFile(calls, 'utf8')).trim().split('\n').map(line => JSON.parse(line))
+assert.deepEqual(log.slice(0, 2), [
+    ['version', '--format', '{{.Server.Version}}'],
+    ['image', 'inspect', '--format', '{{.Id}}', 'amazon/dynamodb-local:2.0.0']
+])
+
+const run = log[2]
+assert.deepEqual(run.slice(0, 7), ['run', '--rm', '--name', `dynamodb-local-${instance.port}`, '--publish', `${instance.port}:8000`, '--volume'])
+assert.equal(run[7], `${dbPath}:/home/dynamodblocal/data`)
+assert.deepEqual(run.slice(run.indexOf('amazon/dynamodb-local:2.0.0') + 1), [
+    '-Xmx1g', '-Djava.library.path=./DynamoDBLocal_lib', '-jar', 'DynamoDBLocal.jar',
+    '-cors', 'http://localhost:3000', '-port', '8000',
+    '-dbPath', '/home/dynamodblocal/data', '-optimizeDbBeforeStartup', '-sharedDb'
+])
+console.log('ok - runs the image with the options mapped onto the container')
+
+assert.equal(instance.dbPath, dbPath)
+assert.equal((await ddb.stop()).code, 0)
+console.log('ok - stops the container with the instance')
+
+await assert.rejects(ddb.start({runtime: 'podman' as any, config: false}), {code: 'INVALID_OPTION'})
+await assert.rejects(ddb.start({runtime: 'docker', dockerPath: join(root, 'missing'), config: false}), {code: 'DOCKER_UNAVAILABLE'})
+console.log('ok - rejects unknown runtimes and missing docker executables')
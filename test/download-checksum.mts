@@ -0,0 +1,147 @@
+import {createServer} from 'node:http'
+import {createHash} from 'node:crypto'
+import {mkdtemp, mkdir, writeFile, readFile, readdir, rm} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {c} from 'tar'
+import {downloadDynamoDB} from '../lib/download-dynamodb.js'
+import {cleanCache, listCache} from '../lib/download-cache.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-'))
+const source = join(root, 'source')
+await mkdir(join(source, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(source, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(source, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+const chunks: Buffer[] = []
+for await (const chunk of c({gzip: true, cwd: source}, ['DynamoDBLocal.jar', 'DynamoDBLocal_lib'])) chunks.push(chunk)
+const archive = Buffer.concat(chunks)
+const sha256 = createHash('sha256').update(archive).digest('hex')
+const corrupted = Buffer.from(archive)
+corrupted[corrupted.length - 10] ^= 0xff
+
+let failures = 0
+let offline = false
+const proxied: string[] = []
+const requested: string[] = []
+
+const server = createServer((req, res) => {
+    requested.push(req.url!)
+
+    if (offline) {
+        res.writeHead(503)
+        return res.end()
+    }
+
+    if (req.url!.startsWith('http://')) {
+        proxied.push(req.url!)
+        req.url = new URL(req.url!).pathname
+    }
+
+    if (req.url!.startsWith('/moved/')) {
+        res.writeHead(302, {location: req.url!.replace('/moved/', '/')})
+        return res.end()
+    }
+
+    if (req.url!.includes('flaky') && failures < 2) {
+        failures++
+        res.writeHead(503)
+        return res.end()
+    }
+
+    const [, release] = req.url!.match(/dynamodb_local_(\w+)\.tar\.gz/) ?? []
+    const body = release === 'corrupted' ? corrupted : archive
+
+    if (req.url!.endsWith('.sha256')) {
+        return res.end(`${sha256}  dynamodb_local_${release}.tar.gz\n`)
+    }
+
+    if (release === 'interrupted') {
+        res.writeHead(200, {'content-length': archive.length})
+        return res.write(archive.subarray(0, 100), () => res.destroy())
+    }
+
+    if (release === 'missing') {
+        res.writeHead(404)
+        return res.end()
+    }
+
+    res.writeHead(200, {'content-length': body.length})
+    res.end(body)
+})
+
+await new Promise<void>(resolve => server.listen(0, resolve))
+const address = server.address()
+const baseUrl = `http://localhost:${typeof address === 'object' && address?.port}/`
+const destination = join(root, 'install', 'latest')
+const cache = join(root, 'cache')
+process.env.DYNAMODB_LOCAL_CACHE = cache
+
+try {
+    await downloadDynamoDB(destination, {baseUrl})
+    const manifest = JSON.parse(await readFile(join(destination, 'manifest.json'), 'utf8'))
+    assert.equal(manifest.sha256, sha256)
+    assert.deepEqual(Object.keys(manifest.files).sort(), ['DynamoDBLocal.jar', 'DynamoDBLocal_lib/sqlite4java.jar'])
+    assert.equal(manifest.files['DynamoDBLocal.jar'].size, 3)
+    assert.equal(await readFile(join(destination, 'DynamoDBLocal.jar'), 'utf8'), 'jar')
+    console.log('ok - installs an archive matching the published checksum')
+
+    for (const [version, checksum, code] of [
+        ['corrupted', undefined, 'CHECKSUM_MISMATCH'],
+        ['latest', '0'.repeat(64), 'CHECKSUM_MISMATCH'],
+        ['interrupted', undefined, undefined],
+        ['missing', undefined, 'DOWNLOAD_FAILED']
+    ] as const) {
+        await assert.rejects(downloadDynamoDB(destination, {baseUrl, version, checksum, cache: false}), (error: any) => !code || error.code === code)
+        assert.equal(JSON.parse(await readFile(join(destination, 'manifest.json'), 'utf8')).version, 'latest')
+        console.log(`ok - keeps the previous installation when the download is ${version === 'latest' ? 'not the expected one' : version}`)
+    }
+
+    assert.deepEqual(await readdir(join(root, 'install')), ['latest'])
+    console.log('ok - leaves no staging directory behind')
+
+    await downloadDynamoDB(destination, {baseUrl: baseUrl + 'moved/', retries: 0, cache: false})
+    console.log('ok - follows redirects')
+
+    await downloadDynamoDB(destination, {baseUrl, version: 'flaky', retries: 2, timeout: 1000, cache: false})
+    assert.equal(failures, 2)
+    console.log('ok - retries failed requests')
+
+    await downloadDynamoDB(destination, {baseUrl: 'http://dynamodb.example/', proxy: baseUrl, cache: false})
+    assert.ok(proxied.includes('http://dynamodb.example/dynamodb-local/dynamodb_local_latest.tar.gz'))
+    console.log('ok - sends requests through the proxy')
+
+    const tarball = join(root, 'dynamodb_local_latest.tar.gz')
+    await writeFile(tarball, archive)
+    await rm(destination, {recursive: true})
+    await downloadDynamoDB(destination, {archive: tarball})
+    assert.equal(JSON.parse(await readFile(join(destination, 'manifest.json'), 'utf8')).sha256, sha256)
+    await writeFile(tarball + '.sha256', '0'.repeat(64))
+    await assert.rejects(downloadDynamoDB(destination, {archive: tarball}), {code: 'CHECKSUM_MISMATCH'})
+    console.log('ok - installs a local archive, verifying its checksum file when present')
+
+    const [entry] = await listCache(cache)
+    assert.equal(entry.sha256, sha256)
+    assert.equal(entry.url, baseUrl + 'dynamodb-local/dynamodb_local_latest.tar.gz')
+    console.log('ok - caches downloaded archives')
+
+    requested.length = 0
+    await downloadDynamoDB(join(root, 'other', 'latest'), {baseUrl})
+    assert.deepEqual(requested, ['/dynamodb-local/dynamodb_local_latest.tar.gz.sha256'])
+    console.log('ok - installs a cached archive without downloading it again')
+
+    offline = true
+    await downloadDynamoDB(join(root, 'offline', 'latest'), {baseUrl, retries: 0})
+    assert.equal(await readFile(join(root, 'offline', 'latest', 'DynamoDBLocal.jar'), 'utf8'), 'jar')
+    offline = false
+    console.log('ok - installs the cached archive when the source is unreachable')
+
+    assert.equal(await cleanCache(cache), archive.length)
+    assert.deepEqual(await listCache(cache), [])
+    console.log('ok - cleans the cache')
+}
+
+finally {
+    server.close()
+}
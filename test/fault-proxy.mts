@@ -0,0 +1,74 @@
+import {createServer, request} from 'node:http'
+import {once} from 'node:events'
+import {setTimeout} from 'node:timers/promises'
+import {mkdtemp, readFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {dynamodbRequest} from '../lib/dynamodb-client.js'
+import {FaultProxy, parseFault} from '../lib/fault-proxy.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-proxy-'))
+
+// answers every operation with its name
+const server = createServer((req, res) => {
+    req.resume().on('end', () => res.end(JSON.stringify({operation: String(req.headers['x-amz-target']).split('.')[1]})))
+}).listen(0)
+
+await once(server, 'listening')
+const trace = join(root, 'trace.ndjson')
+const proxy = await FaultProxy.start(`http://localhost:${(server.address() as any).port}`, 0, {
+    trace,
+    faults: ['ThrottlingException,operation=PutItem,table=users,times=1']
+})
+
+assert.deepEqual(await dynamodbRequest(proxy.endpoint, 'GetItem', {TableName: 'users'}), {operation: 'GetItem'})
+assert.deepEqual(await dynamodbRequest(proxy.endpoint, 'PutItem', {TableName: 'orders'}), {operation: 'PutItem'})
+await assert.rejects(dynamodbRequest(proxy.endpoint, 'PutItem', {TableName: 'users'}), {details: {operation: 'PutItem', type: 'ThrottlingException', status: 400}})
+assert.deepEqual(await dynamodbRequest(proxy.endpoint, 'PutItem', {TableName: 'users'}), {operation: 'PutItem'})
+assert.equal(proxy.faults.length, 0)
+console.log('ok - fails the matching requests as many times as asked')
+
+proxy.inject({type: 'InternalServerError', tables: ['orders']})
+await assert.rejects(dynamodbRequest(proxy.endpoint, 'BatchWriteItem', {RequestItems: {orders: []}}), {details: {operation: 'BatchWriteItem', type: 'InternalServerError', status: 500}})
+proxy.clear()
+proxy.inject('drop,operation=Scan')
+await assert.rejects(dynamodbRequest(proxy.endpoint, 'Scan', {TableName: 'users'}), {code: 'REQUEST_FAILED'})
+proxy.clear()
+proxy.inject({type: 'latency', latency: 200})
+const started = Date.now()
+await dynamodbRequest(proxy.endpoint, 'Query', {TableName: 'users'})
+assert.ok(Date.now() - started >= 190)
+console.log('ok - injects errors, dropped connections and latency at runtime')
+
+// a client going away halfway through its request
+const aborted = request(proxy.endpoint, {method: 'POST', headers: {'Content-Length': 1000}})
+aborted.on('error', () => {})
+aborted.write('{"TableName": ')
+await setTimeout(100)
+aborted.destroy()
+await setTimeout(100)
+assert.deepEqual(await dynamodbRequest(proxy.endpoint, 'GetItem', {TableName: 'users'}), {operation: 'GetItem'})
+console.log('ok - keeps serving when a client aborts a request')
+
+await proxy.close()
+const entries = (await readFile(trace, 'utf8')).trim().split('\n').map(line => JSON.parse(line))
+assert.equal(entries.length, 8)
+assert.deepEqual(
+    entries.map(({operation, tables, status, fault}) => ({operation, tables, status, fault})).slice(2, 4),
+    [
+        {operation: 'PutItem', tables: ['users'], status: 400, fault: 'ThrottlingException'},
+        {operation: 'PutItem', tables: ['users'], status: 200, fault: undefined}
+    ]
+)
+assert.equal(entries[5].status, undefined)
+assert.ok(entries[6].duration >= 190)
+console.log('ok - traces every request')
+
+assert.throws(() => parseFault('Throttled'), {code: 'INVALID_OPTION'})
+assert.throws(() => parseFault('latency,latency=soon'), {code: 'INVALID_OPTION'})
+assert.throws(() => parseFault({type: 'drop', probability: 2}), {code: 'INVALID_OPTION'})
+assert.deepEqual(parseFault('drop,operation=GetItem,operation=Query,probability=0.5'), {type: 'drop', operations: ['GetItem', 'Query'], probability: 0.5})
+console.log('ok - parses and checks faults')
+
+server.close()
@@ -0,0 +1,21 @@
+import {createServer} from 'node:net'
+import {once} from 'node:events'
+import {strict as assert} from 'node:assert'
+import {findPortOwner, getFreePort, getNextFreePort, isPortFree} from '../lib/free-port.js'
+
+const port = await getFreePort()
+assert.equal(await isPortFree(port), true)
+
+const server = createServer().listen(port)
+await once(server, 'listening')
+assert.equal(await isPortFree(port), false)
+assert.notEqual(await getNextFreePort(port), port)
+console.log('ok - detects taken ports and finds the next free one')
+
+// lsof, ss or netstat may be missing
+const owner = await findPortOwner(port)
+if (owner) assert.equal(owner.pid, process.pid)
+assert.equal(await findPortOwner(await getFreePort()), undefined)
+console.log('ok - names the process listening on a port')
+
+server.close()
@@ -0,0 +1,43 @@
+import {mkdtemp, mkdir, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {findJava, parseJavaVersion} from '../lib/java.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-java-'))
+
+async function fakeJava(name: string, output: string) {
+    const bin = join(root, name, 'bin')
+    await mkdir(bin, {recursive: true})
+    await writeFile(join(bin, 'java'), `#!/bin/sh\necho '${output}' >&2\n`, {mode: 0o755})
+    return join(root, name)
+}
+
+assert.deepEqual(parseJavaVersion('java version "1.8.0_392"'), {version: '1.8.0_392', major: 8})
+assert.deepEqual(parseJavaVersion('openjdk version "17.0.2" 2022-01-18'), {version: '17.0.2', major: 17})
+assert.deepEqual(parseJavaVersion('openjdk version "21" 2023-09-19'), {version: '21', major: 21})
+console.log('ok - parses java -version output')
+
+const modern = await fakeJava('modern', 'openjdk version "17.0.2" 2022-01-18')
+const legacy = await fakeJava('legacy', 'java version "1.7.0_80"')
+const onPath = await fakeJava('on-path', 'java version "1.8.0_392"')
+
+process.env.PATH = join(onPath, 'bin')
+delete process.env.JAVA_HOME
+assert.equal((await findJava()).path, join(onPath, 'bin', 'java'))
+console.log('ok - finds java in PATH')
+
+process.env.JAVA_HOME = modern
+assert.equal((await findJava()).major, 17)
+console.log('ok - prefers JAVA_HOME over PATH')
+
+assert.equal((await findJava(join(onPath, 'bin', 'java'))).major, 8)
+console.log('ok - prefers the javaPath option over JAVA_HOME')
+
+await assert.rejects(findJava(legacy), {code: 'JAVA_UNSUPPORTED', message: /1\.7\.0_80 .* not supported/})
+console.log('ok - rejects java releases older than 8')
+
+process.env.JAVA_HOME = join(root, 'missing')
+process.env.PATH = join(root, 'missing')
+await assert.rejects(findJava(), {code: 'JAVA_NOT_FOUND', message: /Java was not found/})
+console.log('ok - reports a missing java')
@@ -0,0 +1,49 @@
+import {mkdtemp, mkdir, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-launch-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+// serves ListTables on -port until terminated
+const java = join(root, 'java')
+await writeFile(java, `#!${process.execPath}
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+require('http').createServer((req, res) => res.end('{"TableNames":[]}')).listen(Number(args[args.indexOf('-port') + 1]))
+process.on('SIGTERM', () => process.exit(0))
+`, {mode: 0o755})
+
+const ddb = new DynamoDBLocal(path)
+const options = {install: false, config: false, javaPath: java} as const
+
+const instances = await Promise.all([ddb.launch(options), ddb.launch(options), ddb.launch({...options, inMemory: true})])
+const ports = instances.map(instance => instance.port)
+assert.equal(new Set(ports).size, ports.length)
+for (const instance of instances) {
+    assert.deepEqual(await (await fetch(instance.endpoint, {method: 'POST'})).json(), {TableNames: []})
+}
+
+console.log('ok - launches concurrent instances on distinct free ports')
+
+assert.deepEqual(instances.map(instance => instance.dbPath), [
+    join(path, 'DynamoDBLocal_db', String(ports[0])),
+    join(path, 'DynamoDBLocal_db', String(ports[1])),
+    undefined
+])
+
+console.log('ok - gives each launched instance a database directory of its own')
+
+await Promise.all(instances.map(instance => instance.stop()))
+assert.ok(instances.every(instance => !instance.running))
+await assert.rejects(ddb.stop(), {code: 'NOT_RUNNING'})
+console.log('ok - stops launched instances independently from start()')
@@ -0,0 +1,70 @@
+import {mkdtemp, mkdir, readFile, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+import {isAlive} from '../lib/kill-tree.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-readiness-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+// serves ListTables on -port after a while, never, or exits first, as told by FAKE_JAVA
+const java = join(root, 'java')
+await writeFile(java, `#!${process.execPath}
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+require('fs').writeFileSync(${JSON.stringify(join(root, 'pid'))}, String(process.pid))
+const listen = () => require('http').createServer((req, res) => res.end('{"TableNames":[]}')).listen(Number(args[args.indexOf('-port') + 1]))
+switch (process.env.FAKE_JAVA) {
+    case 'slow':
+        setTimeout(listen, 500)
+        break
+    case 'stuck':
+        console.error('Initializing DynamoDB Local')
+        console.error('waiting for a lock on the database')
+        setInterval(() => {}, 1000)
+        break
+    case 'crash':
+        console.error('Exception in thread "main" java.lang.UnsupportedClassVersionError')
+        process.exit(3)
+}
+
+process.on('SIGTERM', () => process.exit(0))
+`, {mode: 0o755})
+
+const ddb = new DynamoDBLocal(path)
+const options = {port: 'auto', inMemory: true, install: false, config: false, javaPath: java, retryInterval: 50} as const
+const pid = async () => Number(await readFile(join(root, 'pid'), 'utf8'))
+
+process.env.FAKE_JAVA = 'slow'
+let started = Date.now()
+const instance = await ddb.start(options)
+assert.ok(Date.now() - started >= 500)
+assert.deepEqual(await (await fetch(instance.endpoint, {method: 'POST'})).json(), {TableNames: []})
+await ddb.stop()
+console.log('ok - resolves once DynamoDB answers requests')
+
+process.env.FAKE_JAVA = 'stuck'
+const stuck = await ddb.start({...options, startTimeout: 500}).catch(error => error)
+assert.equal(stuck.code, 'STARTUP_TIMEOUT')
+assert.equal(stuck.details.timeout, 500)
+assert.equal(stuck.details.output, 'Initializing DynamoDB Local\nwaiting for a lock on the database')
+assert.match(stuck.message, /within 500ms\n.*\nwaiting for a lock on the database$/)
+assert.equal(isAlive(await pid()), false)
+console.log('ok - times out with the output of a process that never becomes ready, and terminates it')
+
+process.env.FAKE_JAVA = 'crash'
+started = Date.now()
+const crash = await ddb.start(options).catch(error => error)
+assert.ok(Date.now() - started < 5000)
+assert.equal(crash.code, 'STARTUP_FAILED')
+assert.deepEqual([crash.details.code, crash.details.signal], [3, null])
+assert.match(crash.message, /exited before becoming ready with code 3\n.*UnsupportedClassVersionError/)
+console.log('ok - fails as soon as the process exits before becoming ready')
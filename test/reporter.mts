@@ -0,0 +1,65 @@
+import {strict as assert} from 'node:assert'
+import {JSONReporter, PlainReporter, SilentReporter, createReporter} from '../lib/reporter.js'
+
+// the lines written to stdout, then the ones written to stderr
+function capture(task: () => unknown) {
+    const lines: string[] = []
+    const errors: string[] = []
+    const {write} = process.stdout
+    const {write: writeError} = process.stderr
+    const {log, error} = console
+    process.stdout.write = ((chunk: string) => lines.push(...chunk.split('\n').filter(Boolean))) as any
+    process.stderr.write = ((chunk: string) => errors.push(...chunk.split('\n').filter(Boolean))) as any
+    console.log = (line: string) => lines.push(line)
+    console.error = (line: string) => errors.push(line)
+    try {
+        task()
+    }
+
+    finally {
+        process.stdout.write = write
+        process.stderr.write = writeError
+        console.log = log
+        console.error = error
+    }
+
+    return [lines, errors]
+}
+
+const json = new JSONReporter()
+const [events, errors] = capture(() => {
+    json.warning('\x1b[1mbold\x1b[0m warning')
+    json.error('PORT_IN_USE', 'taken')
+    json.detail('port', 8000)
+    json.progress({task: 'download', message: 'Downloading', current: 1, total: 2})
+}).map(lines => lines.map(line => JSON.parse(line)))
+
+assert.deepEqual(events, [
+    {type: 'warning', message: 'bold warning'},
+    {type: 'detail', name: 'port', value: 8000},
+    {type: 'progress', task: 'download', message: 'Downloading', current: 1, total: 2}
+])
+assert.deepEqual(errors, [{type: 'error', code: 'PORT_IN_USE', message: 'taken'}])
+console.log('ok - writes one JSON object per event, errors to stderr')
+
+const plain = new PlainReporter()
+const [lines, plainErrors] = capture(() => {
+    plain.error('PORT_IN_USE', 'taken')
+    plain.success('dynamodb started')
+    for (let current = 0; current <= 100; current += 10) plain.progress({task: 'download', message: 'Downloading', current, total: 100})
+    plain.progress({task: 'download', message: 'Downloading', current: 100, total: 100, done: true})
+})
+
+assert.ok(lines.every(line => !line.includes('\x1b')))
+assert.deepEqual(lines.slice(1).map(line => line.replace('[DynamoDBLocal] ', '')), [
+    'Downloading', 'Downloading 25%', 'Downloading 50%', 'Downloading 75%', 'Downloading 100%'
+])
+assert.equal(plainErrors.length, 1)
+assert.match(plainErrors[0], /PORT_IN_USE.*taken/)
+console.log('ok - prints plain text and downloads in quarters, errors to stderr')
+
+assert.equal(await new PlainReporter().confirm('Install?'), false)
+assert.equal(await new JSONReporter({yes: true}).confirm('Install?'), true)
+assert.equal(await new SilentReporter().confirm('Install?'), false)
+assert.equal(await createReporter({format: 'tty', interactive: false, yes: true}).confirm('Install?'), true)
+console.log('ok - answers questions without asking when not interactive')
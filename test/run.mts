@@ -0,0 +1,22 @@
+import {spawnSync} from 'node:child_process'
+import {readdirSync} from 'node:fs'
+import {basename, dirname, join} from 'node:path'
+import {fileURLToPath} from 'node:url'
+
+// every test runs in a process of its own, as they set environment variables and leave servers listening
+const directory = dirname(fileURLToPath(import.meta.url))
+const files = process.argv.length > 2
+    ? process.argv.slice(2).map(file => basename(file))
+    : readdirSync(directory).filter(file => file.endsWith('.mts') && file !== 'run.mts').sort()
+
+const failed: string[] = []
+for (const file of files) {
+    console.log(`# ${file}`)
+    const {status} = spawnSync(process.execPath, [...process.execArgv, join(directory, file)], {stdio: 'inherit'})
+    if (status !== 0) failed.push(file)
+}
+
+if (failed.length) {
+    console.log(`not ok - ${failed.join(', ')} failed`)
+    process.exitCode = 1
+}
@@ -0,0 +1,106 @@
+import {createServer} from 'node:http'
+import {once} from 'node:events'
+import {mkdtemp, mkdir, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+import {dynamodbRequest} from '../lib/dynamodb-client.js'
+import {createTable, waitForTable} from '../lib/seed.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-seed-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+// just enough of DynamoDB for seeding, with items keyed by their id
+const java = join(root, 'java')
+await writeFile(java, `#!${process.execPath}
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+const tables = {}
+const operations = {
+    ListTables: () => ({TableNames: Object.keys(tables)}),
+    CreateTable: input => {
+        tables[input.TableName] = {definition: input, items: {}}
+    },
+    DescribeTable: ({TableName}) => ({Table: {...tables[TableName].definition, TableStatus: 'ACTIVE'}}),
+    Scan: ({TableName}) => ({Items: Object.values(tables[TableName].items)}),
+    BatchWriteItem: ({RequestItems}) => {
+        for (const [TableName, requests] of Object.entries(RequestItems)) {
+            for (const {PutRequest} of requests) tables[TableName].items[PutRequest.Item.id.S] = PutRequest.Item
+        }
+
+        return {UnprocessedItems: {}}
+    }
+}
+
+require('http').createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => res.end(JSON.stringify(operations[String(req.headers['x-amz-target']).split('.')[1]](JSON.parse(body || '{}')) ?? {})))
+}).listen(Number(args[args.indexOf('-port') + 1]))
+process.on('SIGTERM', () => process.exit(0))
+`, {mode: 0o755})
+
+const table = (TableName: string, extra = {}) => ({
+    TableName,
+    AttributeDefinitions: [{AttributeName: 'id', AttributeType: 'S'}],
+    KeySchema: [{AttributeName: 'id', KeyType: 'HASH'}],
+    ...extra
+})
+
+const item = (id: string) => ({id: {S: id}})
+const schema = join(root, 'tables.json')
+await writeFile(schema, JSON.stringify([table('users'), table('orders')]))
+
+const ddb = new DynamoDBLocal(path)
+const instance = await ddb.start({
+    port: 'auto', inMemory: true, install: false, config: false, javaPath: java,
+    tables: schema,
+    fixtures: {users: [item('1'), item('2')]}
+})
+
+assert.deepEqual((await dynamodbRequest(instance.endpoint, 'ListTables', {})).TableNames, ['users', 'orders'])
+const {Items} = await dynamodbRequest(instance.endpoint, 'Scan', {TableName: 'users'})
+assert.deepEqual(Items, [item('1'), item('2')])
+const {Table} = await dynamodbRequest(instance.endpoint, 'DescribeTable', {TableName: 'orders'})
+assert.equal(Table.BillingMode, 'PAY_PER_REQUEST')
+await ddb.stop()
+console.log('ok - creates the tables and inserts the fixtures on start')
+
+// records the created tables, which never become ACTIVE when called stuck
+const created: any[] = []
+const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+        const input = JSON.parse(body)
+        if (String(req.headers['x-amz-target']).endsWith('CreateTable')) created.push(input)
+        res.end(JSON.stringify({Table: {TableStatus: input.TableName === 'stuck' ? 'CREATING' : 'ACTIVE'}}))
+    })
+}).listen(0)
+
+await once(server, 'listening')
+const endpoint = `http://localhost:${(server.address() as any).port}`
+
+const throughput = {ReadCapacityUnits: 1, WriteCapacityUnits: 1}
+const index = {IndexName: 'byName', KeySchema: [{AttributeName: 'name', KeyType: 'HASH'}], Projection: {ProjectionType: 'ALL'}}
+await createTable(endpoint, table('perRequest', {GlobalSecondaryIndexes: [index]}))
+await createTable(endpoint, table('provisioned', {ProvisionedThroughput: throughput}))
+await createTable(endpoint, table('indexThroughput', {ProvisionedThroughput: throughput, GlobalSecondaryIndexes: [{...index, ProvisionedThroughput: throughput}]}))
+await createTable(endpoint, table('onlyIndexThroughput', {GlobalSecondaryIndexes: [{...index, ProvisionedThroughput: throughput}]}))
+assert.deepEqual(created.map(input => input.BillingMode), ['PAY_PER_REQUEST', undefined, undefined, undefined])
+console.log('ok - bills tables per request unless they or their indexes have a throughput')
+
+const started = Date.now()
+await assert.rejects(waitForTable(endpoint, 'stuck', 300), {code: 'SEED_FAILED', details: {table: 'stuck', timeout: 300}})
+assert.ok(Date.now() - started >= 300)
+console.log('ok - gives up on tables that do not become ACTIVE in time')
+
+server.close()
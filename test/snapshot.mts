@@ -0,0 +1,148 @@
+import {mkdtemp, mkdir, rm, symlink, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {delimiter, join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+import {dynamodbRequest} from '../lib/dynamodb-client.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-snapshot-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+const bin = join(root, 'bin')
+await mkdir(bin)
+process.env.PATH = bin + delimiter + process.env.PATH
+delete process.env.JAVA_HOME
+
+// just enough of DynamoDB for snapshots, with items keyed by their id, kept in -dbPath/db.json when given
+const java = join(bin, 'java')
+await writeFile(java, `#!${process.execPath}
+const {existsSync, readFileSync, writeFileSync} = require('fs')
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+const file = args.includes('-dbPath') && require('path').join(args[args.indexOf('-dbPath') + 1], 'db.json')
+const tables = file && existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {}
+const operations = {
+    ListTables: () => ({TableNames: Object.keys(tables)}),
+    CreateTable: input => {
+        tables[input.TableName] = {definition: input, items: {}}
+    },
+    DeleteTable: ({TableName}) => {
+        delete tables[TableName]
+    },
+    DescribeTable: ({TableName}) => ({Table: {...tables[TableName].definition, TableStatus: 'ACTIVE'}}),
+    DescribeTimeToLive: ({TableName}) => {
+        const ttl = tables[TableName].ttl
+        return {TimeToLiveDescription: ttl ? {TimeToLiveStatus: 'ENABLED', AttributeName: ttl} : {TimeToLiveStatus: 'DISABLED'}}
+    },
+    UpdateTimeToLive: ({TableName, TimeToLiveSpecification}) => {
+        tables[TableName].ttl = TimeToLiveSpecification.Enabled ? TimeToLiveSpecification.AttributeName : undefined
+    },
+    PutItem: ({TableName, Item}) => {
+        tables[TableName].items[Item.id.S] = Item
+    },
+    Scan: ({TableName}) => ({Items: Object.values(tables[TableName].items)}),
+    BatchWriteItem: ({RequestItems}) => {
+        for (const [TableName, requests] of Object.entries(RequestItems)) {
+            for (const {PutRequest} of requests) tables[TableName].items[PutRequest.Item.id.S] = PutRequest.Item
+        }
+
+        return {UnprocessedItems: {}}
+    }
+}
+
+require('http').createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => {
+        const output = operations[String(req.headers['x-amz-target']).split('.')[1]](JSON.parse(body || '{}')) ?? {}
+        if (file) writeFileSync(file, JSON.stringify(tables))
+        res.end(JSON.stringify(output))
+    })
+}).listen(Number(args[args.indexOf('-port') + 1]))
+process.on('SIGTERM', () => process.exit(0))
+`, {mode: 0o755})
+
+const ddb = new DynamoDBLocal(path)
+const options = {port: 'auto', install: false, config: false} as const
+const table = (TableName: string) => ({
+    TableName,
+    AttributeDefinitions: [{AttributeName: 'id', AttributeType: 'S'}],
+    KeySchema: [{AttributeName: 'id', KeyType: 'HASH'}],
+    BillingMode: 'PAY_PER_REQUEST'
+})
+
+const item = (id: string) => ({id: {S: id}})
+const contents = async (endpoint: string) => {
+    const {TableNames} = await dynamodbRequest(endpoint, 'ListTables', {})
+    const result: Record<string, string[]> = {}
+    for (const TableName of TableNames) {
+        const {Items} = await dynamodbRequest(endpoint, 'Scan', {TableName})
+        result[TableName] = Items.map((item: any) => item.id.S).sort()
+    }
+
+    return result
+}
+
+const memory = await ddb.start({...options, inMemory: true})
+await dynamodbRequest(memory.endpoint, 'CreateTable', table('users'))
+await dynamodbRequest(memory.endpoint, 'UpdateTimeToLive', {TableName: 'users', TimeToLiveSpecification: {AttributeName: 'expires', Enabled: true}})
+await dynamodbRequest(memory.endpoint, 'PutItem', {TableName: 'users', Item: item('1')})
+await dynamodbRequest(memory.endpoint, 'PutItem', {TableName: 'users', Item: item('2')})
+await memory.snapshot('seeded')
+
+await dynamodbRequest(memory.endpoint, 'PutItem', {TableName: 'users', Item: item('3')})
+await dynamodbRequest(memory.endpoint, 'UpdateTimeToLive', {TableName: 'users', TimeToLiveSpecification: {AttributeName: 'expires', Enabled: false}})
+await dynamodbRequest(memory.endpoint, 'CreateTable', table('orders'))
+await memory.restore('seeded')
+assert.deepEqual(await contents(memory.endpoint), {users: ['1', '2']})
+const {TimeToLiveDescription} = await dynamodbRequest(memory.endpoint, 'DescribeTimeToLive', {TableName: 'users'})
+assert.equal(TimeToLiveDescription.AttributeName, 'expires')
+console.log('ok - round trips an inMemory instance through the DynamoDB API')
+
+await ddb.stop()
+const disk = await ddb.start({...options, dbPath: join(root, 'db')})
+await dynamodbRequest(disk.endpoint, 'CreateTable', table('users'))
+await dynamodbRequest(disk.endpoint, 'PutItem', {TableName: 'users', Item: item('1')})
+
+const pid = disk.pid
+await disk.snapshot('files')
+assert.notEqual(disk.pid, pid)
+
+await dynamodbRequest(disk.endpoint, 'PutItem', {TableName: 'users', Item: item('2')})
+await dynamodbRequest(disk.endpoint, 'DeleteTable', {TableName: 'users'})
+await disk.restore('files')
+assert.deepEqual(await contents(disk.endpoint), {users: ['1']})
+assert.ok(disk.running)
+console.log('ok - round trips the database files of an instance writing to dbPath')
+
+// a file that can't be copied makes the snapshot fail
+const broken = join(root, 'db', 'broken')
+await symlink(join(root, 'nowhere'), broken)
+await assert.rejects(disk.snapshot('files'), {code: 'ENOENT'})
+await rm(broken)
+assert.ok(disk.running)
+assert.deepEqual(await disk.listSnapshots(), ['files', 'seeded'])
+await dynamodbRequest(disk.endpoint, 'PutItem', {TableName: 'users', Item: item('2')})
+await disk.restore('files')
+assert.deepEqual(await contents(disk.endpoint), {users: ['1']})
+console.log('ok - keeps the previous snapshot when a new one fails')
+
+assert.deepEqual(await disk.listSnapshots(), ['files', 'seeded'])
+await disk.restore('seeded')
+assert.deepEqual(await contents(disk.endpoint), {users: ['1', '2']})
+console.log('ok - lists snapshots and restores exported ones into any instance')
+
+await assert.rejects(disk.restore('missing'), {code: 'SNAPSHOT_FAILED'})
+await assert.rejects(disk.snapshot('../outside'), {code: 'INVALID_OPTION'})
+await ddb.stop()
+const other = await ddb.start({...options, inMemory: true})
+await assert.rejects(other.restore('files'), {code: 'SNAPSHOT_FAILED', message: /inMemory/})
+await ddb.stop()
+console.log('ok - rejects missing snapshots, invalid names and files restored into an inMemory instance')
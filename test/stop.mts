@@ -0,0 +1,75 @@
+import {mkdtemp, mkdir, readFile, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {delimiter, join} from 'node:path'
+import {setTimeout} from 'node:timers/promises'
+import {strict as assert} from 'node:assert'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-stop-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+const bin = join(root, 'bin')
+const pids = join(root, 'pids')
+await mkdir(bin)
+process.env.PATH = bin + delimiter + process.env.PATH
+delete process.env.JAVA_HOME
+
+// serves ListTables on -port and starts a child of its own, which both ignore SIGTERM when stubborn
+async function fakeJava(stubborn: boolean) {
+    await writeFile(join(bin, 'java'), `#!${process.execPath}
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+require('http').createServer((req, res) => res.end('{"TableNames":[]}')).listen(Number(args[args.indexOf('-port') + 1]))
+const ignore = ${stubborn ? "\"process.on('SIGTERM', () => {}); \"" : "''"}
+const child = require('child_process').spawn(process.execPath, ['-e', ignore + 'setInterval(() => {}, 1000)'], {stdio: 'ignore'})
+require('fs').writeFileSync(${JSON.stringify(pids)}, process.pid + ' ' + child.pid)
+process.on('SIGTERM', () => ${stubborn ? '{}' : 'process.exit(0)'})
+`, {mode: 0o755})
+}
+
+const isAlive = (pid: number) => {
+    try {
+        process.kill(pid, 0)
+        return true
+    }
+
+    catch {
+        return false
+    }
+}
+
+// the processes left behind by the shell are reaped by init, a little later
+async function alive() {
+    const list = (await readFile(pids, 'utf8')).split(' ').map(Number)
+    for (let i = 0; i < 20 && list.some(isAlive); i++) await setTimeout(50)
+    return list.filter(isAlive)
+}
+
+const ddb = new DynamoDBLocal(path)
+const options = {port: 'auto', inMemory: true, install: false, config: false} as const
+
+await fakeJava(false)
+let instance = await ddb.start(options)
+let started = Date.now()
+assert.notEqual((await instance.stop({gracePeriod: 5000})).signal, 'SIGKILL')
+assert.ok(Date.now() - started < 5000)
+assert.deepEqual(await alive(), [])
+console.log('ok - terminates the process tree with SIGTERM')
+
+await fakeJava(true)
+instance = await ddb.start(options)
+started = Date.now()
+const stopping = instance.stop({gracePeriod: 300})
+assert.equal(instance.stop(), stopping)
+await stopping
+assert.ok(Date.now() - started >= 300)
+assert.deepEqual(await alive(), [])
+assert.equal(instance.running, false)
+console.log('ok - escalates to SIGKILL once the grace period is over')
@@ -0,0 +1,122 @@
+import {spawn} from 'node:child_process'
+import {once} from 'node:events'
+import {createRequire} from 'node:module'
+import {mkdtemp, mkdir, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {isAlive} from '../lib/kill-tree.js'
+import {environmentVariables, setupDynamoDBLocal, teardownDynamoDBLocal} from '../lib/test-environment.js'
+import {createGlobalSetup} from '../lib/vitest-global-setup.js'
+import {createMochaHooks} from '../lib/mocha.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-test-environment-'))
+const path = join(root, 'install')
+await mkdir(join(path, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(path, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(path, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+// serves ListTables on -port until terminated
+const java = join(root, 'java')
+await writeFile(java, `#!${process.execPath}
+const args = process.argv.slice(2)
+if (args[0] === '-version') {
+    console.error('openjdk version "17.0.2" 2022-01-18')
+    process.exit(0)
+}
+
+require('http').createServer((req, res) => res.end('{"TableNames":[]}')).listen(Number(args[args.indexOf('-port') + 1]))
+process.on('SIGTERM', () => process.exit(0))
+`, {mode: 0o755})
+
+const options = {path, config: false, javaPath: java} as const
+const lib = (file: string) => JSON.stringify(new URL(`../lib/${file}`, import.meta.url).href)
+
+// checks the variables published while running, then that the instance is gone once torn down
+async function check(setup: () => Promise<unknown>, teardown: () => Promise<unknown>) {
+    await setup()
+    const endpoint = process.env[environmentVariables.endpoint]!
+    const port = Number(process.env[environmentVariables.port])
+    assert.equal(endpoint, `http://localhost:${port}`)
+    assert.equal(process.env[environmentVariables.sdkEndpoint], endpoint)
+    assert.deepEqual(await (await fetch(endpoint, {method: 'POST'})).json(), {TableNames: []})
+
+    const instance = await setupDynamoDBLocal()
+    assert.equal(instance.endpoint, endpoint)
+    await teardown()
+    assert.equal(instance.running, false)
+    assert.equal(isAlive(instance.pid!), false)
+    for (const name of Object.values(environmentVariables)) assert.equal(process.env[name], undefined)
+}
+
+await check(() => setupDynamoDBLocal(options), teardownDynamoDBLocal)
+// nothing left to stop
+await teardownDynamoDBLocal()
+console.log('ok - publishes the endpoint of the instance and stops it on teardown')
+
+// the configured port and dbPath are meant for start()
+process.env.DYNAMODB_LOCAL_JAVA_PATH = java
+process.env.DYNAMODB_LOCAL_PORT = '1'
+process.env.DYNAMODB_LOCAL_DB_PATH = join(root, 'db')
+await check(() => setupDynamoDBLocal({path}), teardownDynamoDBLocal)
+delete process.env.DYNAMODB_LOCAL_JAVA_PATH
+delete process.env.DYNAMODB_LOCAL_PORT
+delete process.env.DYNAMODB_LOCAL_DB_PATH
+console.log('ok - launches with the configured options')
+
+// Jest requires its global setup and teardown modules
+const require = createRequire(import.meta.url)
+const {default: globalSetup} = require('../lib/jest-global-setup.js')
+const {default: globalTeardown} = require('../lib/jest-global-teardown.js')
+await check(() => globalSetup(undefined, {globals: {dynamodbLocal: options}}), globalTeardown)
+console.log('ok - starts and stops the instance from the Jest global setup and teardown')
+
+let teardown: () => Promise<void>
+await check(async () => teardown = await createGlobalSetup(options)(), () => teardown())
+console.log('ok - starts and stops the instance from the Vitest global setup')
+
+const hooks = createMochaHooks(options)
+await check(hooks.beforeAll, hooks.afterAll)
+console.log('ok - starts and stops the instance from the Mocha root hooks')
+
+// node:test hooks only run in a file executed by the test runner
+const suite = join(root, 'suite.mjs')
+await writeFile(suite, `import {test} from 'node:test'
+import {useDynamoDBLocal} from ${lib('node-test.js')}
+
+const ddb = useDynamoDBLocal(${JSON.stringify(options)})
+test('publishes the endpoint', () => {
+    if (process.env.${environmentVariables.endpoint} !== ddb.instance.endpoint) throw new Error('not published')
+    console.log('pid ' + ddb.instance.pid)
+})
+`)
+
+const child = spawn(process.execPath, [suite])
+let output = ''
+child.stdout.on('data', chunk => output += chunk)
+const [code] = await once(child, 'exit')
+assert.equal(code, 0, output)
+const pid = Number(/pid (\d+)/.exec(output)?.[1])
+assert.ok(pid)
+assert.equal(isAlive(pid), false)
+console.log('ok - starts and stops the instance from the node:test hooks')
+
+// each worker process sets up its own instance, all of them at once
+const worker = join(root, 'worker.mjs')
+await writeFile(worker, `import {setupDynamoDBLocal, teardownDynamoDBLocal} from ${lib('test-environment.js')}
+
+const instance = await setupDynamoDBLocal(${JSON.stringify(options)})
+console.log(instance.port)
+process.stdin.resume()
+process.stdin.on('end', teardownDynamoDBLocal)
+`)
+
+const workers = [1, 2, 3].map(() => spawn(process.execPath, [worker]))
+const ports = await Promise.all(workers.map(async worker => Number(String((await once(worker.stdout, 'data'))[0]))))
+assert.equal(new Set(ports).size, ports.length)
+await Promise.all(workers.map(worker => {
+    worker.stdin.end()
+    return once(worker, 'exit')
+}))
+
+console.log('ok - gives parallel workers distinct ports')
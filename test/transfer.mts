@@ -0,0 +1,79 @@
+import {createServer} from 'node:http'
+import {once} from 'node:events'
+import {mkdtemp, readFile, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {exportTables, importTables} from '../lib/transfer.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-transfer-'))
+
+// just enough of DynamoDB for the transfers, with one page of 10 items per Scan segment request
+const tables = new Map<string, {definition: any, items: Map<string, any>}>()
+const operations: Record<string, (input: any) => object> = {
+    ListTables: () => ({TableNames: [...tables.keys()]}),
+    CreateTable: input => {
+        tables.set(input.TableName, {definition: input, items: new Map()})
+        return {}
+    },
+    DescribeTable: ({TableName}) => ({Table: {...tables.get(TableName)!.definition, TableStatus: 'ACTIVE', TableArn: `arn:aws:dynamodb:ddblocal:000000000000:table/${TableName}`}}),
+    DescribeTimeToLive: () => ({TimeToLiveDescription: {TimeToLiveStatus: 'DISABLED'}}),
+    Scan: ({TableName, Segment, TotalSegments, ExclusiveStartKey}) => {
+        const items = [...tables.get(TableName)!.items.values()].filter((_, i) => i % TotalSegments === Segment)
+        const start = ExclusiveStartKey ? Number(ExclusiveStartKey.offset.N) : 0
+        const page = items.slice(start, start + 10)
+        return {Items: page, LastEvaluatedKey: start + 10 < items.length ? {offset: {N: String(start + 10)}} : undefined}
+    },
+    BatchWriteItem: ({RequestItems}) => {
+        for (const [TableName, requests] of Object.entries<any[]>(RequestItems)) {
+            for (const {PutRequest} of requests) tables.get(TableName)!.items.set(PutRequest.Item.id.S, PutRequest.Item)
+        }
+
+        return {UnprocessedItems: {}}
+    }
+}
+
+const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => res.end(JSON.stringify(operations[String(req.headers['x-amz-target']).split('.')[1]](JSON.parse(body)))))
+}).listen(0)
+
+await once(server, 'listening')
+const endpoint = `http://localhost:${(server.address() as any).port}`
+
+const source = join(root, 'source.ndjson')
+const users = {TableName: 'users', AttributeDefinitions: [{AttributeName: 'id', AttributeType: 'S'}], KeySchema: [{AttributeName: 'id', KeyType: 'HASH'}]}
+await writeFile(source, [
+    JSON.stringify({Table: users}),
+    ...Array.from({length: 95}, (_, i) => JSON.stringify({TableName: 'users', Item: {id: {S: `user-${i}`}, n: {N: String(i)}}}))
+].join('\n'))
+
+assert.deepEqual(await importTables(endpoint, source), {tables: {users: 95}, items: 95})
+assert.equal(tables.get('users')!.items.size, 95)
+console.log('ok - imports tables and items from NDJSON')
+
+const exported = join(root, 'exported.ndjson')
+assert.deepEqual(await exportTables(endpoint, exported, {segments: 3}), {tables: {users: 95}, items: 95})
+const lines = (await readFile(exported, 'utf8')).trim().split('\n').map(line => JSON.parse(line))
+assert.equal(lines[0].Table.TableName, 'users')
+assert.equal(new Set(lines.slice(1).map(line => line.Item.id.S)).size, 95)
+console.log('ok - exports every table to NDJSON with a parallel scan')
+
+const s3 = join(root, 's3')
+await exportTables(endpoint, s3, {format: 's3'})
+const summary = JSON.parse(await readFile(join(s3, 'users', 'manifest-summary.json'), 'utf8'))
+assert.equal(summary.itemCount, 95)
+assert.equal(summary.outputFormat, 'DYNAMODB_JSON')
+
+tables.clear()
+assert.deepEqual(await importTables(endpoint, s3), {tables: {users: 95}, items: 95})
+assert.equal(tables.get('users')!.items.size, 95)
+console.log('ok - round trips through the S3 export format')
+
+await assert.rejects(importTables(endpoint, join(root, 'missing.ndjson')), {code: 'FILE_ERROR'})
+await writeFile(join(root, 'invalid.ndjson'), '{"nope": true}\n')
+await assert.rejects(importTables(endpoint, join(root, 'invalid.ndjson')), {code: 'FILE_ERROR', message: /line 1/})
+console.log('ok - rejects missing and invalid sources')
+
+server.close()
@@ -0,0 +1,67 @@
+import {mkdtemp, mkdir, readFile, rm, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {c} from 'tar'
+import {DynamoDBLocal} from '../lib/dynamodb-local.js'
+import {verifyInstallation} from '../lib/manifest.js'
+
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-verify-'))
+const source = join(root, 'source')
+await mkdir(join(source, 'DynamoDBLocal_lib'), {recursive: true})
+await writeFile(join(source, 'DynamoDBLocal.jar'), 'jar')
+await writeFile(join(source, 'DynamoDBLocal_lib', 'sqlite4java.jar'), 'lib')
+
+const tarball = join(root, 'dynamodb_local_latest.tar.gz')
+const pack = async () => {
+    const chunks: Buffer[] = []
+    for await (const chunk of c({gzip: true, cwd: source}, ['DynamoDBLocal.jar', 'DynamoDBLocal_lib'])) chunks.push(chunk)
+    await writeFile(tarball, Buffer.concat(chunks))
+}
+
+await pack()
+const ddb = new DynamoDBLocal(join(root, 'install'))
+await ddb.install({archive: tarball, config: false})
+const installation = join(root, 'install', 'latest')
+const jar = join(installation, 'DynamoDBLocal.jar')
+const lib = join(installation, 'DynamoDBLocal_lib', 'sqlite4java.jar')
+
+assert.deepEqual(await verifyInstallation(installation), {verifiable: true, missing: [], modified: []})
+const [intact] = await ddb.verify()
+assert.deepEqual(intact, {verifiable: true, missing: [], modified: [], version: 'latest', path: installation, repaired: false})
+console.log('ok - verifies an intact installation')
+
+// same size, other content
+await writeFile(jar, 'JAR')
+assert.deepEqual((await verifyInstallation(installation)).modified, [])
+assert.deepEqual((await verifyInstallation(installation, {hashes: true})).modified, ['DynamoDBLocal.jar'])
+await writeFile(jar, 'jarjar')
+await rm(lib)
+assert.deepEqual(await verifyInstallation(installation), {verifiable: true, missing: ['DynamoDBLocal_lib/sqlite4java.jar'], modified: ['DynamoDBLocal.jar']})
+console.log('ok - detects missing and modified files')
+
+// not repaired unless asked, and the silent reporter answers no
+const [damaged] = await ddb.verify({version: 'latest'})
+assert.deepEqual([damaged.missing, damaged.modified, damaged.repaired], [['DynamoDBLocal_lib/sqlite4java.jar'], ['DynamoDBLocal.jar'], false])
+await assert.rejects(ddb.start({install: false, config: false}), {code: 'NOT_INSTALLED'})
+console.log('ok - refuses to start a damaged installation')
+
+const [repaired] = await ddb.verify({repair: true})
+assert.deepEqual([repaired.missing, repaired.modified, repaired.repaired], [[], [], true])
+assert.equal(await readFile(jar, 'utf8'), 'jar')
+console.log('ok - repairs from the recorded archive')
+
+// the archive changed since it was installed
+await rm(lib)
+await writeFile(join(source, 'DynamoDBLocal.jar'), 'other jar')
+await pack()
+await assert.rejects(ddb.verify({repair: true}), {code: 'CHECKSUM_MISMATCH'})
+assert.deepEqual((await verifyInstallation(installation)).missing, ['DynamoDBLocal_lib/sqlite4java.jar'])
+console.log('ok - refuses to repair from an archive that no longer matches the checksum')
+
+const manifest = JSON.parse(await readFile(join(installation, 'manifest.json'), 'utf8'))
+delete manifest.files
+await writeFile(join(installation, 'manifest.json'), JSON.stringify(manifest))
+assert.deepEqual(await verifyInstallation(installation), {verifiable: false, missing: [], modified: []})
+await assert.rejects(ddb.verify({version: '2023-12-14'}), {code: 'NOT_INSTALLED'})
+console.log('ok - reports installations without a file list and versions not installed')
@@ -0,0 +1,114 @@
+import {createServer} from 'node:http'
+import {once} from 'node:events'
+import {mkdtemp, writeFile} from 'node:fs/promises'
+import {tmpdir} from 'node:os'
+import {join} from 'node:path'
+import {strict as assert} from 'node:assert'
+import {reloadSeed, reseed} from '../lib/watch.js'
+
+// just enough of DynamoDB for reseeding, with items keyed by their id
+const tables = new Map<string, {definition: any, ttl?: string, items: Map<string, any>}>()
+const operations: Record<string, (input: any) => object> = {
+    ListTables: () => ({TableNames: [...tables.keys()]}),
+    CreateTable: input => {
+        tables.set(input.TableName, {definition: input, items: new Map()})
+        return {}
+    },
+    DeleteTable: ({TableName}) => {
+        tables.delete(TableName)
+        return {}
+    },
+    DescribeTable: ({TableName}) => ({Table: {...tables.get(TableName)!.definition, TableStatus: 'ACTIVE'}}),
+    UpdateTable: ({TableName, GlobalSecondaryIndexUpdates: [{Create, Delete}]}) => {
+        const definition = tables.get(TableName)!.definition
+        const indexes = (definition.GlobalSecondaryIndexes ?? []).filter((index: any) => index.IndexName !== Delete?.IndexName)
+        definition.GlobalSecondaryIndexes = Create ? [...indexes, {...Create, IndexStatus: 'ACTIVE'}] : indexes
+        return {}
+    },
+    DescribeTimeToLive: ({TableName}) => {
+        const ttl = tables.get(TableName)!.ttl
+        return {TimeToLiveDescription: ttl ? {TimeToLiveStatus: 'ENABLED', AttributeName: ttl} : {TimeToLiveStatus: 'DISABLED'}}
+    },
+    UpdateTimeToLive: ({TableName, TimeToLiveSpecification}) => {
+        tables.get(TableName)!.ttl = TimeToLiveSpecification.Enabled ? TimeToLiveSpecification.AttributeName : undefined
+        return {}
+    },
+    DeleteItem: ({TableName, Key}) => {
+        tables.get(TableName)!.items.delete(Key.id.S)
+        return {}
+    },
+    BatchWriteItem: ({RequestItems}) => {
+        for (const [TableName, requests] of Object.entries<any[]>(RequestItems)) {
+            for (const {PutRequest} of requests) tables.get(TableName)!.items.set(PutRequest.Item.id.S, PutRequest.Item)
+        }
+
+        return {UnprocessedItems: {}}
+    }
+}
+
+const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => body += chunk)
+    req.on('end', () => res.end(JSON.stringify(operations[String(req.headers['x-amz-target']).split('.')[1]](JSON.parse(body)))))
+}).listen(0)
+
+await once(server, 'listening')
+const endpoint = `http://localhost:${(server.address() as any).port}`
+
+const table = (name: string, type = 'S', extra = {}) => ({
+    TableName: name,
+    AttributeDefinitions: [{AttributeName: 'id', AttributeType: type}],
+    KeySchema: [{AttributeName: 'id', KeyType: 'HASH'}],
+    ...extra
+})
+
+const item = (id: string, name = id) => ({id: {S: id}, name: {S: name}})
+const empty = {tables: [], fixtures: {}}
+const first = {tables: [table('users'), table('orders')], fixtures: {users: [item('1'), item('2')]}}
+
+assert.deepEqual(await reseed(endpoint, empty, first), [
+    {table: 'users', action: 'created', items: 2},
+    {table: 'orders', action: 'created'}
+])
+console.log('ok - creates the missing tables with their fixtures')
+
+const second = {
+    tables: [
+        table('users', 'S', {
+            GlobalSecondaryIndexes: [{IndexName: 'byName', KeySchema: [{AttributeName: 'name', KeyType: 'HASH'}], Projection: {ProjectionType: 'ALL'}}],
+            TimeToLiveSpecification: {AttributeName: 'expires', Enabled: true}
+        }),
+        table('payments', 'N')
+    ],
+    fixtures: {users: [item('1', 'renamed')]}
+}
+
+tables.get('users')!.items.set('3', item('3'))
+assert.deepEqual(await reseed(endpoint, first, second), [
+    {table: 'orders', action: 'deleted'},
+    {table: 'users', action: 'updated', reason: 'added index byName, time to live on expires', items: 1},
+    {table: 'payments', action: 'created'}
+])
+assert.deepEqual([...tables.get('users')!.items.keys()].sort(), ['1', '3'])
+assert.equal(tables.get('users')!.items.get('1').name.S, 'renamed')
+console.log('ok - updates tables and fixtures, keeping the items written by others')
+
+const third = {...second, tables: [second.tables[0], table('payments', 'S')]}
+assert.deepEqual(await reseed(endpoint, second, third), [{table: 'payments', action: 'recreated', reason: 'type of id changed'}])
+assert.deepEqual(await reseed(endpoint, third, third), [])
+console.log('ok - recreates tables whose keys changed')
+
+// both module formats are read again from their changed files
+const root = await mkdtemp(join(tmpdir(), 'dynamodb-local-watch-'))
+const schema = join(root, 'tables.mjs')
+const data = join(root, 'data.cjs')
+const seed = {tables: schema, fixtures: data}
+await writeFile(schema, `export default ${JSON.stringify([table('users')])}`)
+await writeFile(data, `module.exports = ${JSON.stringify({users: [item('1')]})}`)
+assert.deepEqual(await reloadSeed(seed), {tables: [table('users')], fixtures: {users: [item('1')]}})
+await writeFile(schema, `export default ${JSON.stringify([table('orders')])}`)
+await writeFile(data, `module.exports = ${JSON.stringify({users: [item('2')]})}`)
+assert.deepEqual(await reloadSeed(seed), {tables: [table('orders')], fixtures: {users: [item('2')]}})
+console.log('ok - reloads changed ES and CommonJS modules')
+
+server.close()